@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BalanceSnapshotRequestSchema, safeValidate } from '@/lib/validation';
+import { createRateLimiter } from '@/lib/rateLimit';
+import { callOracle } from '@/lib/oracleUpstream';
+
+/**
+ * Proxy for the oracle's signed balance snapshots.
+ * The oracle API key is server-only (ORACLE_API_KEY) and never reaches the browser.
+ * Error responses carry a `code`: unavailable (503), request_rejected (422/400),
+ * invalid_response (502), rate_limited (429) or not_configured (503).
+ */
+
+// Snapshot requests per receiver address per minute
+const limitByAddress = createRateLimiter({ limit: 10, windowMs: 60000 });
+
+export async function POST(request: NextRequest) {
+  const apiKey = process.env.ORACLE_API_KEY;
+
+  if (!apiKey) {
+    console.error('ORACLE_API_KEY is not configured');
+    return NextResponse.json({ error: 'Oracle is not configured', code: 'not_configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const validation = safeValidate(BalanceSnapshotRequestSchema, body);
+  if (!validation.success) {
+    return NextResponse.json({ error: `Invalid request: ${validation.error}`, code: 'request_rejected' }, { status: 400 });
+  }
+
+  const { assets, receiver, vaultChainId } = validation.data;
+
+  const rateLimit = limitByAddress(receiver.toLowerCase());
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many signature requests, please wait a moment', code: 'rate_limited' },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+    );
+  }
+
+  const result = await callOracle('/api/oracle/balance-snapshot', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({ assets, receiver, vaultChainId }),
+  });
+
+  if (!result.ok) {
+    console.error('Oracle proxy request failed:', result.error);
+    return NextResponse.json({ error: 'Oracle is temporarily unavailable', code: 'unavailable' }, { status: 503 });
+  }
+
+  const data = await result.response.json().catch(() => null);
+  if (!result.response.ok) {
+    return NextResponse.json(
+      { error: data?.error || `Oracle rejected the request: ${result.response.status}`, code: 'request_rejected' },
+      { status: 422 }
+    );
+  }
+
+  if (!data || typeof data !== 'object') {
+    console.error(`Oracle ${result.endpoint} returned a non-JSON snapshot`);
+    return NextResponse.json({ error: 'Oracle returned an invalid response', code: 'invalid_response' }, { status: 502 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getOracleEndpoints, markOracleHealth } from '@/lib/oracleUpstream';
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Oracle health, checked server-side so the browser doesn't need the oracle URLs.
+// Healthy when at least one endpoint answers; results feed the proxy's failover order.
+export async function GET() {
+  const endpoints = getOracleEndpoints();
+
+  const results = await Promise.all(endpoints.map(async (endpoint) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${endpoint}/health`, { signal: controller.signal, cache: 'no-store' });
+      markOracleHealth(endpoint, response.ok);
+      return response.ok;
+    } catch {
+      markOracleHealth(endpoint, false);
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }));
+
+  const healthyCount = results.filter(Boolean).length;
+  return NextResponse.json(
+    { healthy: healthyCount > 0, endpoints: endpoints.length, healthyEndpoints: healthyCount },
+    { status: healthyCount > 0 ? 200 : 503 }
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import PendingTransactions from "@/components/PendingTransactions";
+import RebalancerAdmin from "@/components/RebalancerAdmin";
+import { NearWalletProvider } from "@/contexts/NearWalletContext";
+import { TransactionStatusProvider } from "@/contexts/TransactionStatusContext";
+
+// Operator tools - not linked from the main UI
+export default function OperatorPage() {
+  return (
+    <TransactionStatusProvider>
+      <NearWalletProvider>
+        <div className="min-h-screen bg-[#0a0a0a] text-white p-6 md:p-12">
+          <div className="max-w-3xl mx-auto space-y-12">
+            <RebalancerAdmin />
+            <PendingTransactions />
+          </div>
+        </div>
+      </NearWalletProvider>
+    </TransactionStatusProvider>
+  );
+}
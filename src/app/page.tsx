@@ -4,16 +4,21 @@ import { useState } from "react";
 import ActivityGraphQL from "@/components/ActivityGraphQL";
 import Allocation from "@/components/Allocation";
 import StatusPanelFigma from "@/components/StatusPanelFigma";
+import ServiceHealthIndicator from "@/components/ServiceHealthIndicator";
 import { EthereumWalletConnection } from "@/components/EthereumWalletConnection";
 import { BalanceFigma } from "@/components/BalanceFigma";
 // import PerformanceChart from "@/components/PerformanceChart"; // kept for reference only
 import ResponsiveVaultChart from "@/components/ResponsiveVaultChart";
 import { useAllocationData } from "@/hooks/useAllocationData";
 import { usePerformanceData } from "@/hooks/usePerformanceData";
+import { useServiceHealth } from "@/hooks/useServiceHealth";
 import { TransactionStatusProvider } from "@/contexts/TransactionStatusContext";
 import { WelcomeProvider } from "@/contexts/WelcomeContext";
 import { MessageStateProvider } from "@/contexts/MessageStateContext";
 import { DepositProvider } from "@/contexts/DepositContext";
+import DeploymentVersion from "@/components/DeploymentVersion";
+import ApprovalSettings from "@/components/ApprovalSettings";
+import PendingTransactionsTray from "@/components/PendingTransactionsTray";
 import Image from "next/image";
 
 
@@ -21,7 +26,7 @@ import Image from "next/image";
 function MainContent() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
-  const { allocations, isLoading: allocationsLoading, error: allocationsError } = useAllocationData();
+  const { allocations, inFlight, isLoading: allocationsLoading, error: allocationsError } = useAllocationData();
   const { 
     loading: performanceLoading
   } = usePerformanceData();
@@ -29,6 +34,8 @@ function MainContent() {
   const isLoading = allocationsLoading || performanceLoading;
   // Only show allocation error if there's a specific allocation error, not performance errors
   const hasAllocationError = allocationsError;
+  // Polled once here, shown in both the desktop sidebar and the mobile layout
+  const serviceHealth = useServiceHealth();
 
   // Welcome modal disabled - no popups
 
@@ -60,6 +67,9 @@ function MainContent() {
             <div className="flex-shrink-0">
               <StatusPanelFigma />
             </div>
+            <div className="pt-3 flex-shrink-0">
+              <ServiceHealthIndicator health={serviceHealth} />
+            </div>
             {/* Spacer pushes footer stack (actions + wallet) to bottom */}
             <div className="flex-1" />
             {/* Actions (Balance) above Wallet at the bottom */}
@@ -69,6 +79,15 @@ function MainContent() {
             <div className="pt-0 flex-shrink-0">
               <EthereumWalletConnection />
             </div>
+            <div className="pt-3 flex-shrink-0">
+              <PendingTransactionsTray />
+            </div>
+            <div className="pt-3 flex-shrink-0">
+              <ApprovalSettings />
+            </div>
+            <div className="pt-3 flex-shrink-0">
+              <DeploymentVersion />
+            </div>
           </div>
         </div>
 
@@ -96,7 +115,7 @@ function MainContent() {
                   </div>
                 ) : (
                   <div className="h-full overflow-hidden">
-                    <Allocation allocations={allocations} />
+                    <Allocation allocations={allocations} inFlight={inFlight} />
                   </div>
                 )}
               </div>
@@ -114,6 +133,11 @@ function MainContent() {
         
         {/* Mobile Content with equal padding top/bottom */}
         <div className="flex-1 px-4 py-4 flex flex-col space-y-4 overflow-y-auto">
+          {/* Service status, as under the desktop status panel */}
+          <div className="flex-shrink-0">
+            <ServiceHealthIndicator health={serviceHealth} />
+          </div>
+
           {/* Performance Chart Card (new responsive) */}
           <div className="flex-shrink-0">
             <ResponsiveVaultChart height={300} />
@@ -132,7 +156,7 @@ function MainContent() {
                 <div className="text-red-400 text-center py-8">Error loading data</div>
               </div>
             ) : (
-              <Allocation allocations={allocations} />
+              <Allocation allocations={allocations} inFlight={inFlight} />
             )}
           </div>
           
@@ -179,6 +203,9 @@ function MainContent() {
           </div>
           <div className="space-y-4">
             <EthereumWalletConnection />
+            <PendingTransactionsTray />
+            <ApprovalSettings />
+            <DeploymentVersion />
           </div>
         </div>
       </div>
@@ -1,15 +1,25 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Circle from './Circle';
-import { createNearContractReader, ActivityLog, SignedTransaction, ChainAllocation } from '@/utils/nearContract';
+import { createNearContractReader, ActivityLog, SignedTransaction, ChainAllocation, NEAR_AMOUNT_DECIMALS } from '@/utils/nearContract';
+import { formatAmount as formatFixedAmount, tryToAmount } from '@/lib/amount';
+import { getChainName } from '@/constants/chains';
+import { ActivityLogReader } from '@/utils/nearActivityLog';
+import { useRebalanceCorrelation } from '@/hooks/useRebalanceCorrelation';
+import type { RebalanceCorrelation } from '@/utils/rebalanceCorrelation';
+import { decodeSignedTransactions, SignedTransactionDecodeResult } from '@/utils/signedTransactions';
 
 const Activity = () => {
   const [logs, setLogs] = useState<ActivityLog[]>([]);
   const [transactions, setTransactions] = useState<SignedTransaction[]>([]);
+  const [decodedTransactions, setDecodedTransactions] = useState<SignedTransactionDecodeResult[]>([]);
   const [allocations, setAllocations] = useState<ChainAllocation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  // Keeps the log cache and last seen nonce between refreshes
+  const logReaderRef = useRef<ActivityLogReader | null>(null);
+  const { correlations } = useRebalanceCorrelation(logs);
 
   const fetchData = async () => {
     setIsLoading(true);
@@ -27,17 +37,29 @@ const Activity = () => {
 
       setIsConnected(true);
 
+      // First load reads the newest page, later refreshes only fetch logs newer than the last seen nonce
+      const isFirstLoad = !logReaderRef.current;
+      if (!logReaderRef.current) {
+        logReaderRef.current = new ActivityLogReader(nearReader);
+      }
+      const logReader = logReaderRef.current;
+
       // Fetch logs, transactions, and allocations in parallel
       const [latestLogs, signedTxs, chainAllocations] = await Promise.allSettled([
-        nearReader.getLatestLogs(5), // Limit to 5 for sidebar
+        isFirstLoad
+          ? logReader.getPage({ limit: 5 }).then(page => page.logs) // Limit to 5 for sidebar
+          : logReader.poll(),
         nearReader.getSignedTransactions(0),
         nearReader.getAllocations() // NEW: Get actual allocation data
       ]);
 
       // Process logs
       if (latestLogs.status === 'fulfilled') {
-        setLogs(latestLogs.value);
-        console.log('✅ Got activity logs:', latestLogs.value);
+        if (isFirstLoad || latestLogs.value.length > 0) {
+          const newLogs = latestLogs.value;
+          setLogs(prev => isFirstLoad ? newLogs : [...newLogs, ...prev].slice(0, 5));
+        }
+        console.log(`✅ Got ${isFirstLoad ? '' : 'new '}activity logs:`, latestLogs.value);
       } else {
         console.error('❌ Failed to fetch logs:', latestLogs.reason);
       }
@@ -46,6 +68,10 @@ const Activity = () => {
       if (signedTxs.status === 'fulfilled') {
         setTransactions(signedTxs.value);
         console.log('✅ Got signed transactions:', signedTxs.value);
+        // Show what the agent actually signed instead of the raw payload type
+        const decoded = await decodeSignedTransactions(signedTxs.value);
+        setDecodedTransactions(decoded);
+        console.log('✅ Decoded signed transactions:', decoded);
       } else {
         console.error('❌ Failed to fetch transactions:', signedTxs.reason);
       }
@@ -74,19 +100,6 @@ const Activity = () => {
     return () => clearInterval(interval);
   }, []);
 
-  const getChainName = (chainId: number): string => {
-    const chainNames: Record<number, string> = {
-      1: 'Ethereum',
-      137: 'Polygon',
-      43114: 'Avalanche',
-      8453: 'Base',
-      42161: 'Arbitrum',
-      10: 'Optimism',
-      // Add more as needed
-    };
-    return chainNames[chainId] || `Chain ${chainId}`;
-  };
-
   const getActivityIcon = (activityType?: string) => {
     switch (activityType?.toLowerCase()) {
       case 'invest': return '💰';
@@ -100,28 +113,10 @@ const Activity = () => {
     }
   };
 
-  const getTransactionTypeLabel = (payloadType: number) => {
-    const types: Record<number, string> = {
-      0: 'CCTP Burn',
-      1: 'Ethereum Tx',
-      2: 'CCTP Mint',
-      3: 'Rebalancer Tx'
-    };
-    return types[payloadType] || `Type ${payloadType}`;
-  };
-
-  const formatAmount = (amount: string): string => {
-    try {
-      // Convert from wei/smallest unit to readable format
-      const bigIntAmount = BigInt(amount);
-      const formatted = (Number(bigIntAmount) / 1e18).toLocaleString(undefined, {
-        maximumFractionDigits: 2,
-        minimumFractionDigits: 0
-      });
-      return formatted;
-    } catch {
-      return amount;
-    }
+  // u128 base units -> readable amount, without going through floating point
+  const formatAmount = (amount: string, decimals: number = NEAR_AMOUNT_DECIMALS): string => {
+    const fixed = tryToAmount(amount, decimals);
+    return fixed ? formatFixedAmount(fixed, { maxFractionDigits: 2 }) : amount;
   };
 
   const formatActivityText = (log: ActivityLog) => {
@@ -141,10 +136,30 @@ const Activity = () => {
     }
   };
 
-  const formatTransactionText = (tx: SignedTransaction) => {
-    const label = getTransactionTypeLabel(tx.payload_type);
-    const bytes = tx.raw_transaction.length / 2;
-    return `🔐 ${label} (${bytes} bytes)`;
+  // On-chain progress of a rebalance: confirmed EVM steps and slippage once the amount is realised
+  const formatCorrelation = (correlation?: RebalanceCorrelation) => {
+    if (!correlation) return '';
+    const steps = correlation.timeline.filter(step => step.kind !== 'logged');
+    if (steps.length === 0) return '';
+    const confirmed = steps.filter(step => step.status === 'confirmed').length;
+    const slippage = correlation.slippageBps !== null ? ` · slippage ${correlation.slippageBps} bps` : '';
+    return ` · ${confirmed}/${steps.length} tx confirmed${slippage}`;
+  };
+
+  const formatTimeline = (correlation?: RebalanceCorrelation) =>
+    correlation?.timeline
+      .map(step => `${step.timestamp ? new Date(step.timestamp).toLocaleString() : 'pending'} · ${step.summary} (${step.status})`)
+      .join('\n');
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+  const formatTransactionText = (tx: SignedTransactionDecodeResult) => {
+    if (!tx.decoded) {
+      const bytes = (tx.raw.length - 2) / 2;
+      return `🔐 Type ${tx.payloadType} (${bytes} bytes, not decodable)`;
+    }
+    const signer = tx.signer ? ` · signed by ${shortAddress(tx.signer)}` : '';
+    return `🔐 ${tx.summary} · nonce ${tx.nonce ?? '?'}${signer}`;
   };
 
   // Generate activity events
@@ -220,7 +235,7 @@ const Activity = () => {
               <div key={index} className="flex items-center gap-2">
                 <Circle width={12} />
                 <span className="text-gray-400 text-xs truncate">
-                  🔗 {getChainName(allocation.chainId)}: {formatAmount(allocation.amount)}
+                  🔗 {getChainName(allocation.chainId)}: {formatAmount(allocation.amount, allocation.decimals)}
                 </span>
               </div>
             ))}
@@ -244,8 +259,8 @@ const Activity = () => {
             {logs.slice(0, 3).map((log, index) => (
               <div key={index} className="flex items-center gap-2">
                 <Circle width={12} />
-                <span className="text-gray-400 text-xs truncate">
-                  {formatActivityText(log)}
+                <span className="text-gray-400 text-xs truncate" title={formatTimeline(correlations[log.nonce])}>
+                  {formatActivityText(log)}{formatCorrelation(correlations[log.nonce])}
                 </span>
               </div>
             ))}
@@ -254,11 +269,11 @@ const Activity = () => {
       )}
 
       {/* Pending Transactions Summary */}
-      {transactions.length > 0 && (
+      {decodedTransactions.length > 0 && (
         <div className="mt-3 pt-3 border-t border-gray-700">
           <p className="text-white text-sm mb-2">Pending Transactions:</p>
           <div className="space-y-1">
-            {transactions.slice(0, 2).map((tx, index) => (
+            {decodedTransactions.slice(0, 2).map((tx, index) => (
               <div key={index} className="flex items-center gap-2">
                 <Circle width={12} />
                 <span className="text-gray-400 text-xs truncate">
@@ -1,19 +1,25 @@
 import React from 'react';
 import Image from 'next/image';
+import { formatUsdc } from '@/lib/amount';
 
 interface AllocationItem {
   name: string;
   icon: string; // emoji or icon
-  apy: number;
+  apy: number | null; // null when the live rate is unavailable
   allocation: number; // percentage
+  balance?: bigint | null; // null when the vault couldn't be read
   color: string; // for the icon background
+  targetAllocation?: number | null; // rebalancer's intended percentage from NEAR
+  discrepancy?: number | null; // target - actual, percentage points
+  flagged?: boolean;
 }
 
 interface AllocationProps {
   allocations: AllocationItem[];
+  inFlight?: bigint; // USDC base units the rebalancer counts but no vault holds yet
 }
 
-const Allocation = ({ allocations }: AllocationProps) => {
+const Allocation = ({ allocations, inFlight = BigInt(0) }: AllocationProps) => {
   console.log(allocations);
   
   // Helper function to get chain icon
@@ -44,6 +50,21 @@ const Allocation = ({ allocations }: AllocationProps) => {
   const displayAllocations = sortedAllocations;
   const totalPercent = displayAllocations.reduce((sum, a) => sum + (a.allocation || 0), 0);
   const remainingPercent = Math.max(0, 100 - totalPercent);
+  const flaggedAllocations = displayAllocations.filter(item => item.flagged);
+
+  // Agent's intended allocation vs on-chain balances, shown when they diverge
+  const discrepancyNotice = flaggedAllocations.length > 0 || inFlight > BigInt(0) ? (
+    <div className="bg-gray2 border border-gray3 rounded-md px-3 py-2 text-xs text-yellow-400">
+      {flaggedAllocations.length > 0
+        ? `Rebalancer target differs from on-chain balance on ${flaggedAllocations.map(item => item.name).join(', ')}.`
+        : 'Rebalancer total exceeds on-chain vault balances.'}
+      {inFlight > BigInt(0) && ` ${formatUsdc(inFlight)} USDC likely in flight over CCTP.`}
+    </div>
+  ) : null;
+
+  const formatApy = (apy: number | null) => (apy === null ? '—' : `${apy.toFixed(2)}%`);
+  const formatAllocation = (item: AllocationItem) => (item.balance === null ? 'unavailable' : `${item.allocation}%`);
+  const formatDiscrepancy = (discrepancy: number) => `${discrepancy > 0 ? '+' : ''}${discrepancy} pts`;
   
   return (
     <div className="bg-gray1 border border-gray3 text-primary rounded-lg w-full h-full overflow-x-hidden max-w-full">
@@ -87,6 +108,8 @@ const Allocation = ({ allocations }: AllocationProps) => {
             </div>
           </div>
 
+          {discrepancyNotice && <div className="mb-4">{discrepancyNotice}</div>}
+
           {/* Allocation details list */}
           <div className="space-y-4 flex-1 overflow-y-hidden overflow-x-hidden">
             {displayAllocations.map((item, index) => (
@@ -101,12 +124,20 @@ const Allocation = ({ allocations }: AllocationProps) => {
                       height={32}
                     />
                   </div>
-                  <span className="text-primary font-medium truncate">{item.name}</span>
+                  <div className="min-w-0">
+                    <span className="text-primary font-medium truncate block">{item.name}</span>
+                    {item.targetAllocation != null && (
+                      <span className={`text-xs ${item.flagged ? 'text-yellow-400' : 'text-gray5'}`}>
+                        Target {item.targetAllocation}%
+                        {item.flagged && item.discrepancy != null && ` (${formatDiscrepancy(item.discrepancy)})`}
+                      </span>
+                    )}
+                  </div>
                 </div>
                 
                 {/* Middle - APY (centered between name and indicator) */}
                 <div className="text-gray5 text-sm mx-4 shrink-0 text-center w-32">
-                  {item.apy}% APY
+                  {formatApy(item.apy)} APY
                 </div>
                 
                 {/* Right side - Progress bar and percentage grouped and right-aligned */}
@@ -117,8 +148,8 @@ const Allocation = ({ allocations }: AllocationProps) => {
                       style={{ width: `${item.allocation}%` }}
                     />
                   </div>
-                  <span className="text-gray5 text-sm font-medium w-10 text-right">
-                    {item.allocation}%
+                  <span className={`text-gray5 text-sm font-medium text-right ${item.balance === null ? 'w-20' : 'w-10'}`}>
+                    {formatAllocation(item)}
                   </span>
                 </div>
               </div>
@@ -166,6 +197,8 @@ const Allocation = ({ allocations }: AllocationProps) => {
           </div>
         </div>
         
+        {discrepancyNotice && <div className="mb-3">{discrepancyNotice}</div>}
+
         {/* Allocation details */}
         <div className="space-y-3">
           {displayAllocations.map((item, index) => (
@@ -181,12 +214,15 @@ const Allocation = ({ allocations }: AllocationProps) => {
                   />
                 </div>
                 <span className="text-white text-sm">{item.name}</span>
-                <span className="text-gray-400 text-xs">{item.apy}% APY</span>
+                <span className="text-gray-400 text-xs">{formatApy(item.apy)} APY</span>
               </div>
               
-              {/* Right side - Percentage */}
+              {/* Right side - Percentage, with the rebalancer's target when it differs */}
               <span className="text-gray5 text-sm font-medium">
-                {item.allocation}%
+                {formatAllocation(item)}
+                {item.flagged && item.targetAllocation != null && (
+                  <span className="text-yellow-400 text-xs"> / {item.targetAllocation}%</span>
+                )}
               </span>
             </div>
           ))}
@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAccount, useReadContracts, useSwitchChain, useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { ERC20_ABI } from '@/utils/contracts';
+import { getVaultChains } from '@/constants/chains';
+import { useTransactionStatus } from '@/contexts/TransactionStatusContext';
+import { validateAmount, type ApprovalPolicy } from '@/lib/validation';
+import {
+  APPROVAL_POLICY_LABELS,
+  UNLIMITED_ALLOWANCE_THRESHOLD,
+  loadApprovalPolicy,
+  saveApprovalPolicy,
+} from '@/lib/approvalPolicy';
+import { formatUsdc } from '@/lib/amount';
+
+const formatAllowance = (allowance: bigint) => {
+  if (allowance >= UNLIMITED_ALLOWANCE_THRESHOLD) return 'Unlimited';
+  return `${formatUsdc(allowance, { minFractionDigits: 0 })} USDC`;
+};
+
+// USDC approval policy picker plus current vault allowances with one-click revoke
+export const ApprovalSettings: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const { switchChain } = useSwitchChain();
+  const { addMessage } = useTransactionStatus();
+  const [isOpen, setIsOpen] = useState(false);
+  const [policy, setPolicy] = useState<ApprovalPolicy>(() => loadApprovalPolicy(address));
+  const [capInput, setCapInput] = useState(policy.capAmount);
+  const [capError, setCapError] = useState<string | null>(null);
+  const [revokingChainId, setRevokingChainId] = useState<number | null>(null);
+
+  // Reload the saved policy when the wallet changes
+  useEffect(() => {
+    const saved = loadApprovalPolicy(address);
+    setPolicy(saved);
+    setCapInput(saved.capAmount);
+    setCapError(null);
+  }, [address]);
+
+  // Only chains the wallet can switch to have transports configured
+  const vaultChains = getVaultChains().filter(chain => chain.walletEnabled && chain.assetAddress);
+
+  const { data: allowances, refetch: refetchAllowances } = useReadContracts({
+    contracts: vaultChains.map(chain => ({
+      chainId: chain.id,
+      address: chain.assetAddress as `0x${string}`,
+      abi: ERC20_ABI,
+      functionName: 'allowance' as const,
+      args: [address as `0x${string}`, chain.vaultAddress as `0x${string}`] as const,
+    })),
+    query: { enabled: !!address && isOpen },
+  });
+
+  const { writeContract, data: revokeHash, reset: resetRevoke } = useWriteContract({
+    mutation: {
+      onError: (error) => {
+        console.error('Revoke failed:', error);
+        addMessage({ type: 'error', message: `Revoke failed: ${error.message.split('\n')[0]}` });
+        setRevokingChainId(null);
+      },
+    },
+  });
+
+  const { isSuccess: isRevokeConfirmed } = useWaitForTransactionReceipt({
+    hash: revokeHash,
+    // Speed-ups resolve with the replacement's receipt; a cancelled revoke must not read as confirmed
+    onReplaced: ({ reason }) => {
+      if (reason === 'repriced') return;
+      addMessage({ type: 'error', message: `Revoke was ${reason} in wallet` });
+      setRevokingChainId(null);
+      resetRevoke();
+    },
+    query: { enabled: !!revokeHash },
+  });
+
+  useEffect(() => {
+    if (isRevokeConfirmed && revokeHash) {
+      addMessage({ type: 'success', message: 'USDC approval revoked', txHash: revokeHash, chainId: revokingChainId ?? undefined });
+      setRevokingChainId(null);
+      resetRevoke();
+      refetchAllowances();
+    }
+  }, [isRevokeConfirmed, revokeHash, revokingChainId, addMessage, resetRevoke, refetchAllowances]);
+
+  const updatePolicy = (next: ApprovalPolicy) => {
+    setPolicy(next);
+    if (address) saveApprovalPolicy(address, next);
+  };
+
+  const handleCapChange = (value: string) => {
+    setCapInput(value);
+    const error = validateAmount(value);
+    setCapError(error);
+    if (!error) updatePolicy({ ...policy, capAmount: value });
+  };
+
+  const handleRevoke = (targetChainId: number, tokenAddress: string, vaultAddress: string) => {
+    // Revoking is a transaction on the vault's chain, switch there first
+    if (chainId !== targetChainId) {
+      switchChain({ chainId: targetChainId });
+      return;
+    }
+
+    setRevokingChainId(targetChainId);
+    writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [vaultAddress as `0x${string}`, BigInt(0)],
+      gas: BigInt(100000), // Explicit gas limit
+    });
+  };
+
+  if (!isConnected || !address) return null;
+
+  return (
+    <div className="bg-gray2 border border-gray3 rounded-md text-primary">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm"
+      >
+        <span>USDC approvals</span>
+        <span className="text-secondary text-xs">{APPROVAL_POLICY_LABELS[policy.mode]} {isOpen ? '▴' : '▾'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {/* Policy used for future approvals */}
+          <div className="space-y-2">
+            {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy['mode'][]).map(mode => (
+              <label key={mode} className="flex items-center gap-2 text-xs text-secondary cursor-pointer">
+                <input
+                  type="radio"
+                  name="approval-policy"
+                  checked={policy.mode === mode}
+                  onChange={() => updatePolicy({ ...policy, mode })}
+                />
+                <span className={policy.mode === mode ? 'text-primary' : ''}>{APPROVAL_POLICY_LABELS[mode]}</span>
+                {mode === 'cap' && policy.mode === 'cap' && (
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={capInput}
+                    onChange={(e) => handleCapChange(e.target.value.replace(/[^0-9.]/g, ''))}
+                    className={`ml-auto w-24 bg-gray1 text-primary px-2 py-1 rounded border ${capError ? 'border-red-500' : 'border-gray4'} text-xs text-right`}
+                  />
+                )}
+              </label>
+            ))}
+            {capError && <p className="text-red-400 text-xs">{capError}</p>}
+          </div>
+
+          {/* Current allowances per vault */}
+          <div className="border-t border-gray3 pt-3 space-y-2">
+            {vaultChains.map((chain, index) => {
+              const allowance = allowances?.[index]?.status === 'success' ? allowances[index].result as bigint : undefined;
+              const hasAllowance = allowance !== undefined && allowance > BigInt(0);
+              return (
+                <div key={chain.id} className="flex items-center justify-between text-xs">
+                  <span className="text-secondary">{chain.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span>{allowance === undefined ? '—' : formatAllowance(allowance)}</span>
+                    {hasAllowance && (
+                      <button
+                        onClick={() => handleRevoke(chain.id, chain.assetAddress as string, chain.vaultAddress as string)}
+                        disabled={revokingChainId !== null}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        {revokingChainId === chain.id ? 'Revoking...' : chainId === chain.id ? 'Revoke' : 'Switch to revoke'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalSettings;
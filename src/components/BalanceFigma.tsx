@@ -1,18 +1,53 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useBalance, useReadContract } from 'wagmi';
 import { formatUnits, parseUnits } from 'viem';
-import { AAVE_VAULT_ABI, ERC20_ABI, getContractAddress, getUSDCAddress } from '@/utils/contracts';
-import { getDepositSignature } from '@/utils/oracleClient';
+import { AAVE_VAULT_ABI } from '@/utils/contracts';
+import { checkOracleHealth, OracleError } from '@/utils/oracleClient';
+import { buildApprovalRequest, buildDepositRequest, buildWithdrawRequest } from '@/utils/vaultTransactions';
+import { validateVaultLimit } from '@/lib/validation';
+import { formatAmount, formatUsdc, mulDiv, toAmount, SHARE_DECIMALS } from '@/lib/amount';
+import { getChain, getChainName, getExplorerTxUrl } from '@/constants/chains';
 import { usePerformanceData } from '@/hooks/usePerformanceData';
+import { useVaultState } from '@/hooks/useVaultState';
+import { useVaultTransaction, type VaultTxPhase, type VaultTxPlan } from '@/hooks/useVaultTransaction';
 import { Button } from '@/components/Button';
+import { SimulationSummary } from '@/components/SimulationSummary';
 import { useTransactionStatus } from '@/contexts/TransactionStatusContext';
 import { useWelcome } from '@/contexts/WelcomeContext';
 import { useDeposit } from '@/contexts/DepositContext';
 
-// BUILD v5.7: Hybrid approach - wagmi writeContract with explicit gas limits
-// This gives us cleaner code while avoiding MetaMask simulation issues
+// BUILD v5.7: Transactions run through useVaultTransaction with explicit gas limits
+// (see vaultTransactions), which avoids MetaMask simulation issues
+
+type DepositStep = 'input' | 'approving' | 'depositing' | 'review' | 'confirming' | 'error';
+type WithdrawStep = 'input' | 'withdrawing' | 'review' | 'confirming' | 'error';
+
+// Card steps rendered for each transaction phase
+const DEPOSIT_STEPS: Record<VaultTxPhase, DepositStep> = {
+  idle: 'input',
+  quoting: 'depositing',
+  approving: 'approving',
+  simulating: 'depositing',
+  reviewing: 'review',
+  signing: 'depositing',
+  submitted: 'depositing',
+  confirmed: 'confirming',
+  failed: 'error',
+};
+
+const WITHDRAW_STEPS: Record<VaultTxPhase, WithdrawStep> = {
+  idle: 'input',
+  quoting: 'withdrawing',
+  approving: 'withdrawing',
+  simulating: 'withdrawing',
+  reviewing: 'review',
+  signing: 'withdrawing',
+  submitted: 'withdrawing',
+  confirmed: 'confirming',
+  failed: 'error',
+};
 
 export const BalanceFigma = () => {
   const { address, isConnected, chainId, connector } = useAccount();
@@ -21,9 +56,13 @@ export const BalanceFigma = () => {
   const [currentState, setCurrentState] = useState<'balance' | 'deposit' | 'withdraw'>('balance');
   const [depositAmount, setDepositAmount] = useState('');
   const [withdrawAmount, setWithdrawAmount] = useState('');
-  const [depositStep, setDepositStep] = useState<'input' | 'approving' | 'depositing' | 'confirming' | 'error'>('input');
-  const [withdrawStep, setWithdrawStep] = useState<'input' | 'withdrawing' | 'confirming' | 'error'>('input');
-  const [errorMessage, setErrorMessage] = useState('');
+  const tx = useVaultTransaction();
+  // Native balance for the gas check in the confirmation step
+  const { data: nativeBalance } = useBalance({ address, chainId: tx.chainId, query: { enabled: tx.phase === 'reviewing' } });
+  const depositStep = tx.kind === 'deposit' ? DEPOSIT_STEPS[tx.phase] : 'input';
+  const withdrawStep = tx.kind === 'withdraw' ? WITHDRAW_STEPS[tx.phase] : 'input';
+  const [withdrawUnit, setWithdrawUnit] = useState<'assets' | 'shares'>('assets');
+  const [isWithdrawAll, setIsWithdrawAll] = useState(false);
   const [depositValidationError, setDepositValidationError] = useState('');
   const [withdrawValidationError, setWithdrawValidationError] = useState('');
 
@@ -64,7 +103,7 @@ export const BalanceFigma = () => {
   });
   
   // Get performance data for APY, user's vault value, and totals
-  const { currentApy, totalValue: userVaultValue, refetchVaultBalance } = usePerformanceData();
+  const { currentApy, userVaultAssets, refetchVaultBalance } = usePerformanceData();
   
   // Transaction status context
   const { addMessage, upsertMessage, removeMessage, clearMessages } = useTransactionStatus();
@@ -79,96 +118,97 @@ export const BalanceFigma = () => {
     }
   }, [address, chainId]);
   
-  // BUILD v5.7: Contract write hooks with explicit gas limits
-  const { 
-    writeContract: writeVault, 
-    data: vaultTxHash, 
-    isPending: isVaultPending, 
-    error: vaultWriteError,
-    reset: resetVaultWrite 
-  } = useWriteContract();
-  
-  const { 
-    writeContract: writeUSDC, 
-    data: usdcTxHash, 
-    isPending: isUSDCPending, 
-    error: usdcWriteError,
-    reset: resetUSDCWrite 
-  } = useWriteContract();
-  
-  // Transaction receipt hooks - automatically track tx status
-  const { 
-    isSuccess: isVaultTxSuccess, 
-    isError: isVaultTxError
-  } = useWaitForTransactionReceipt({ hash: vaultTxHash, chainId });
-  
-  const { 
-    isLoading: isUSDCTxLoading, 
-    isSuccess: isUSDCTxSuccess, 
-    isError: isUSDCTxError 
-  } = useWaitForTransactionReceipt({ hash: usdcTxHash, chainId });
-  
-  // Read user's USDC balance
-  const { refetch: refetchUSDCBalance } = useReadContract({
-    address: chainId ? getUSDCAddress(chainId) as `0x${string}` : undefined,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!chainId }
-  });
+  // Vault and user state for the connected chain - balance, allowance, shares, totals and
+  // ERC-4626 limits - from one multicall so they always come from the same block
+  const {
+    allowance: usdcAllowance,
+    shares: vaultShares,
+    maxRedeem: maxRedeemShares,
+    maxDeposit: maxDepositAssets,
+    maxWithdraw: maxWithdrawAssets,
+    refetch: refetchVaultState,
+  } = useVaultState();
+
+  const maxRedeemableShares = maxRedeemShares ?? vaultShares ?? BigInt(0);
+
+  // Shares to redeem: the exact redeemable balance for "withdraw all", the typed amount in shares mode.
+  // Undefined means an asset-denominated withdraw(assets, ...) instead of redeem(shares, ...)
+  const redeemShares = (() => {
+    if (isWithdrawAll) return maxRedeemableShares;
+    if (withdrawUnit === 'shares' && isValidAmount(withdrawAmount)) {
+      try {
+        return parseUnits(withdrawAmount, 6);
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  })();
 
-  // Read current USDC allowance for the vault
-  const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-    address: chainId ? getUSDCAddress(chainId) as `0x${string}` : undefined,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: address && chainId ? [address, getContractAddress(chainId) as `0x${string}`] : undefined,
-    query: { enabled: !!address && !!chainId }
-  });
-  
-  // Read vault shares (user's balance in the vault)
-  const { data: vaultShares, refetch: refetchVaultShares } = useReadContract({
-    address: chainId ? getContractAddress(chainId) as `0x${string}` : undefined,
+  // Vault on the connected chain from the registry, undefined where none is deployed (no reads there)
+  const vaultAddress = chainId ? getChain(chainId)?.vaultAddress ?? undefined : undefined;
+
+  // Expected USDC for the shares being redeemed, shown before signing
+  const { data: previewRedeemAssets } = useReadContract({
+    address: vaultAddress,
     abi: AAVE_VAULT_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!chainId }
+    functionName: 'previewRedeem',
+    args: redeemShares !== undefined ? [redeemShares] : undefined,
+    query: { enabled: !!vaultAddress && redeemShares !== undefined && redeemShares > BigInt(0) }
   });
 
+  // Shares minted for the typed deposit / burned for the typed asset withdrawal
+  const depositAssets = isValidAmount(depositAmount) ? parseUnits(depositAmount, 6) : undefined;
+  const withdrawAssets = redeemShares === undefined && isValidAmount(withdrawAmount) ? parseUnits(withdrawAmount, 6) : undefined;
 
+  // USDC the withdrawal is expected to pay out (base units): previewRedeem for share redemptions, the typed amount otherwise
+  const expectedWithdrawAssets = redeemShares !== undefined
+    ? previewRedeemAssets ?? BigInt(0)
+    : withdrawAssets ?? BigInt(0);
 
-  // Read vault total assets and total supply for share price calculation
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { data: totalAssets, refetch: refetchTotalAssets } = useReadContract({
-    address: chainId ? getContractAddress(chainId) as `0x${string}` : undefined,
+  const { data: previewDepositShares } = useReadContract({
+    address: vaultAddress,
     abi: AAVE_VAULT_ABI,
-    functionName: 'totalAssets',
-    query: { enabled: !!chainId }
+    functionName: 'previewDeposit',
+    args: depositAssets !== undefined ? [depositAssets] : undefined,
+    query: { enabled: !!vaultAddress && depositAssets !== undefined }
   });
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { data: totalSupply, refetch: refetchTotalSupply } = useReadContract({
-    address: chainId ? getContractAddress(chainId) as `0x${string}` : undefined,
+  const { data: previewWithdrawShares } = useReadContract({
+    address: vaultAddress,
     abi: AAVE_VAULT_ABI,
-    functionName: 'totalSupply',
-    query: { enabled: !!chainId }
+    functionName: 'previewWithdraw',
+    args: withdrawAssets !== undefined ? [withdrawAssets] : undefined,
+    query: { enabled: !!vaultAddress && withdrawAssets !== undefined }
   });
 
+  const depositLimitError = depositAssets !== undefined
+    ? validateVaultLimit(depositAmount, maxDepositAssets, 'deposit')
+    : null;
+
+  // "Withdraw all" redeems exactly maxRedeem so it can't exceed the limit
+  const withdrawLimitError = !isWithdrawAll && isValidAmount(withdrawAmount)
+    ? withdrawUnit === 'shares'
+      ? validateVaultLimit(withdrawAmount, maxRedeemShares, 'redemption')
+      : validateVaultLimit(withdrawAmount, maxWithdrawAssets, 'withdrawal')
+    : null;
+
+  // In USDC mode "withdraw all" shows the quoted payout for the full share balance
+  const withdrawInputValue = isWithdrawAll && withdrawUnit === 'assets' && previewRedeemAssets !== undefined
+    ? formatUnits(previewRedeemAssets, 6)
+    : withdrawAmount;
+
   // Calculate user's balance in USDC
   // Note: userBalance calculation removed as it's not currently used in the UI
 
   // Format values for display
   // Note: balanceFormatted removed as it's not currently used in the UI
   
-  const vaultSharesFormatted = vaultShares 
-    ? parseFloat(formatUnits(vaultShares, 6)).toFixed(4)
-    : '0.0000';
+  const vaultSharesFormatted = formatAmount(toAmount(vaultShares ?? BigInt(0), SHARE_DECIMALS), { maxFractionDigits: 4, minFractionDigits: 4 });
 
   // Format USDC balance for display
   // Display user's deposited funds in the vault (not wallet balance)
-  const userDepositedFormatted = userVaultValue 
-    ? parseFloat(userVaultValue.toString()).toFixed(2)
-    : '0.00';
+  const userDepositedFormatted = formatUsdc(userVaultAssets);
 
 
 
@@ -195,7 +235,7 @@ export const BalanceFigma = () => {
       return;
     }
     
-    const contractAddress = getContractAddress(chainId);
+    const contractAddress = vaultAddress;
     if (!contractAddress) {
       addMessage({
         type: 'error',
@@ -230,7 +270,7 @@ export const BalanceFigma = () => {
         'Contract Address': contractAddress,
         'Token Symbol': 'AAVE-RB',
         'Decimals': 6,
-        'Network': chainId === 1 ? 'Ethereum' : chainId === 84532 ? 'Base Sepolia' : chainId
+        'Network': getChainName(chainId)
       });
       
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -282,30 +322,105 @@ export const BalanceFigma = () => {
     }
   };
 
+  // Open a transaction in the chain's block explorer (falls back to showing the hash)
+  const openTransactionInExplorer = (txChainId: number, txHash: string) => {
+    const url = getExplorerTxUrl(txChainId, txHash);
+    if (url) {
+      window.open(url, '_blank');
+    } else {
+      console.log('Transaction hash:', txHash);
+      alert(`Transaction hash: ${txHash}\n(No block explorer for ${getChainName(txChainId)})`);
+    }
+  };
+
   // Simple state change functions
+  const { cancel: resetTransaction } = tx;
   const handleDeposit = useCallback(() => {
     setCurrentState('deposit');
-    setDepositStep('input');
+    resetTransaction();
     setDepositAmount('');
-  }, []);
+  }, [resetTransaction]);
 
   // Register deposit handler with context for welcome message to use
   useEffect(() => {
     setTriggerDepositCallback(handleDeposit);
   }, [setTriggerDepositCallback, handleDeposit]);
 
+  // BUILD v5.7: Deposit flow - oracle pre-flight, approval, then the (signed) deposit
+  const buildDepositPlan = (assets: bigint): VaultTxPlan => {
+    const receiver = address as `0x${string}`;
+    const vaultChainId = chainId as number;
+
+    return {
+      kind: 'deposit',
+      review: true,
+      // Every deposit needs an oracle snapshot, so stop before any wallet prompt if the oracle is down
+      quote: async () => {
+        upsertMessage('deposit-pending', { type: 'pending', message: 'Checking signing service...' });
+        if (!(await checkOracleHealth())) {
+          console.warn('⚠️ [BUILD v5.7] Oracle health check failed, aborting deposit');
+          throw new OracleError('unavailable', 'Oracle health check failed');
+        }
+      },
+      approval: async () => {
+        if (hasEnoughAllowance(depositAmount)) return null;
+        removeMessage('deposit-pending');
+        upsertMessage('deposit-approving', { type: 'pending', message: 'Approving spending limit...' });
+        console.log('🚀 [BUILD v5.7] Approving USDC with explicit gas limit');
+        return buildApprovalRequest(vaultChainId, receiver, assets);
+      },
+      approvalPreview: async () => hasEnoughAllowance(depositAmount) ? null : buildApprovalRequest(vaultChainId, receiver, assets),
+      verifyApproval: async () => {
+        console.log('🔍 [BUILD v5.7] MetaMask simulation error detected - checking allowance...');
+        const { allowance } = await refetchVaultState();
+        return !!allowance && allowance >= assets;
+      },
+      request: () => {
+        removeMessage('deposit-approving');
+        return buildDepositRequest({
+          chainId: vaultChainId,
+          receiver,
+          assets,
+          onProgress: message => upsertMessage('deposit-pending', { type: 'pending', message }),
+        });
+      },
+      onApproved: hash => {
+        upsertMessage('deposit-approving', { type: 'success', message: 'Approval successful. Proceeding…', txHash: hash, chainId: vaultChainId });
+        refetchVaultState();
+      },
+      onConfirmed: hash => {
+        removeMessage('deposit-pending');
+        upsertMessage('deposit-success', { type: 'success', message: `Deposit of ${depositAmount} USDC completed successfully!`, txHash: hash, chainId: vaultChainId });
+        refreshAllBalances();
+      },
+      onFailed: (error, hash) => {
+        removeMessage('deposit-approving');
+        if (hash) {
+          upsertMessage('deposit-pending', { type: 'error', message: error.message, txHash: hash, chainId: vaultChainId });
+        } else {
+          removeMessage('deposit-pending');
+        }
+        // The transaction may have gone through despite the wallet error
+        if (error.kind === 'simulation') refreshAllBalances();
+      },
+    };
+  };
+
   // New function to handle the actual deposit initiation
   const handleInitiateDeposit = () => {
-    if (!depositAmount) return;
-    
-    // Check if we have enough allowance
-    if (hasEnoughAllowance(depositAmount)) {
-      // Skip approval and go directly to deposit
-      handleConfirmDeposit();
-    } else {
-      // Need approval first
-      handleApproveUSDC();
+    if (!address || !chainId || !depositAmount) return;
+
+    // Final validation check before proceeding
+    if (!isValidAmount(depositAmount)) {
+      setDepositValidationError('Please enter a valid amount');
+      return;
     }
+    if (depositLimitError) {
+      setDepositValidationError(depositLimitError);
+      return;
+    }
+
+    tx.start(buildDepositPlan(parseUnits(depositAmount, 6)));
   };
 
   const handleWithdrawClick = () => {
@@ -314,36 +429,22 @@ export const BalanceFigma = () => {
 
   const handleCancel = () => {
     setCurrentState('balance');
-    setDepositStep('input');
-    setWithdrawStep('input');
+    tx.cancel();
     setDepositAmount('');
     setWithdrawAmount('');
-    setErrorMessage('');
+    setWithdrawUnit('assets');
+    setIsWithdrawAll(false);
     setDepositValidationError('');
     setWithdrawValidationError('');
     // Refresh balances when returning to balance view in case any transactions completed
     refreshAllBalances();
   };
 
-  const handleRetry = () => {
-    setDepositStep('input');
-    setErrorMessage('');
-  };
-
-  // Reset errors when starting new operations
-  const resetErrors = () => {
-    setErrorMessage('');
-  };
-
   // Refresh all balance-related data
   const refreshAllBalances = async () => {
     try {
       await Promise.all([
-        refetchUSDCBalance(),
-        refetchVaultShares(),
-        refetchTotalAssets(),
-        refetchTotalSupply(),
-        refetchAllowance(),
+        refetchVaultState(),
         refetchVaultBalance() // Also refresh the usePerformanceData hook's data
       ]);
       console.log('All balances refreshed successfully');
@@ -352,347 +453,7 @@ export const BalanceFigma = () => {
     }
   };
 
-  // BUILD v5.7: Deposit flow using wagmi writeContract with explicit gas limits
-  const handleApproveUSDC = () => {
-    if (!address || !chainId || !depositAmount) return;
-    
-    // Final validation check before proceeding
-    if (!isValidAmount(depositAmount)) {
-      setDepositValidationError('Please enter a valid amount');
-      return;
-    }
-    
-    resetErrors();
-    resetUSDCWrite(); // Reset any previous write state
-    setDepositStep('approving');
-    
-    upsertMessage('deposit-approving', { type: 'pending', message: 'Approving spending limit...' });
-    
-    // Approve maximum amount (type(uint256).max) for unlimited spending
-    const maxAmount = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
-    
-    console.log('🚀 [BUILD v5.7] writeUSDC for approve with explicit gas limit');
-    
-    // Use wagmi writeContract with explicit gas limit to avoid MetaMask simulation issues
-    writeUSDC({
-      address: getUSDCAddress(chainId) as `0x${string}`,
-      abi: ERC20_ABI,
-      functionName: 'approve',
-      args: [getContractAddress(chainId) as `0x${string}`, maxAmount],
-      gas: BigInt(100000), // Explicit gas limit
-    });
-  };
-
-  // BUILD v5.7: Deposit using wagmi writeContract with explicit gas limits
-  const handleConfirmDeposit = async () => {
-    if (!address || !chainId || !depositAmount) return;
-    
-    // Final validation check before proceeding
-    if (!isValidAmount(depositAmount)) {
-      setDepositValidationError('Please enter a valid amount');
-      return;
-    }
-    
-    resetErrors();
-    resetVaultWrite(); // Reset any previous write state
-    setDepositStep('depositing');
-    
-    try {
-      removeMessage('deposit-approving');
-      
-      const amountInWei = parseUnits(depositAmount, 6);
-      
-      upsertMessage('deposit-pending', { type: 'pending', message: 'Getting cross-chain signature...' });
-      
-      // Get signed balance snapshot from oracle
-      console.log('🚀 [BUILD v5.7] Requesting signature from oracle...');
-      const snapshot = await getDepositSignature(
-        amountInWei.toString(),
-        address,
-        chainId
-      );
-      console.log('🚀 [BUILD v5.7] Signature received from oracle:', snapshot);
-      
-      // Check if cross-chain assets exist (balance > 0)
-      if (snapshot.balance === '0' || BigInt(snapshot.balance) === BigInt(0)) {
-        console.log('🚀 [BUILD v5.7] No cross-chain assets, using regular deposit');
-        upsertMessage('deposit-pending', { type: 'pending', message: 'Processing deposit...' });
-        
-        // Use wagmi writeContract with explicit gas limit
-        writeVault({
-          address: getContractAddress(chainId) as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'deposit',
-          args: [amountInWei, address as `0x${string}`],
-          gas: BigInt(350000), // Explicit gas limit
-        });
-        
-      } else {
-        console.log('🚀 [BUILD v5.7] Using deposit with signature');
-        console.log('🚀 [BUILD v5.7] Snapshot:', JSON.stringify({
-          balance: snapshot.balance,
-          nonce: snapshot.nonce,
-          deadline: snapshot.deadline,
-          assets: snapshot.assets,
-          receiver: snapshot.receiver
-        }));
-        upsertMessage('deposit-pending', { type: 'pending', message: 'Deposit with signature in progress...' });
-        
-        // Use wagmi writeContract with signature and explicit gas limit
-        writeVault({
-          address: getContractAddress(chainId) as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'depositWithExtraInfoViaSignature',
-          args: [
-            amountInWei,
-            address as `0x${string}`,
-            {
-              balance: BigInt(snapshot.balance),
-              nonce: BigInt(snapshot.nonce),
-              deadline: BigInt(snapshot.deadline),
-              assets: BigInt(snapshot.assets),
-              receiver: snapshot.receiver as `0x${string}`,
-            },
-            snapshot.signature as `0x${string}`,
-          ],
-          gas: BigInt(350000), // Explicit gas limit
-        });
-      }
-      
-    } catch (error: unknown) {
-      console.error('[BUILD v5.7] Deposit setup failed:', error);
-      removeMessage('deposit-pending');
-      setDepositStep('error');
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      if ((error as any)?.message?.includes('Oracle')) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        setErrorMessage(`Oracle service error: ${(error as any)?.message || 'Unable to get signature.'}`);
-      } else {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        setErrorMessage(`Deposit failed: ${(error as any)?.message || 'Please check your wallet and try again.'}`);
-      }
-    }
-  };
-
-  // BUILD v5.7: Watch for transaction completion and errors with improved error handling
-  useEffect(() => {
-    // Helper to check for MetaMask simulation errors (false negatives on testnets)
-    const isMetaMaskSimulationError = (error: Error | null) => {
-      if (!error) return false;
-      const msg = error.message || '';
-      return msg.includes('Internal JSON-RPC error') || msg.includes('-32603');
-    };
-
-    // Helper to check for user rejection
-    const isUserRejection = (error: Error | null) => {
-      if (!error) return false;
-      const msg = error.message?.toLowerCase() || '';
-      return msg.includes('user rejected') || 
-             msg.includes('rejected') || 
-             msg.includes('denied') ||
-             msg.includes('userrequestrejected');
-    };
-
-    // Success handlers
-    if (isUSDCTxSuccess && depositStep === 'approving') {
-      console.log('✅ [BUILD v5.7] Approval confirmed on-chain');
-      upsertMessage('deposit-approving', { type: 'success', message: 'Approval successful. Proceeding…', txHash: usdcTxHash, chainId });
-      handleConfirmDeposit();
-      refetchAllowance();
-    }
-    
-    if (isVaultTxSuccess && (depositStep === 'depositing' || depositStep === 'error')) {
-      console.log('✅ [BUILD v5.7] Deposit confirmed on-chain');
-      setDepositStep('confirming');
-      removeMessage('deposit-pending');
-      upsertMessage('deposit-success', { type: 'success', message: `Deposit of ${depositAmount} USDC completed successfully!`, txHash: vaultTxHash, chainId });
-      refreshAllBalances();
-    }
-    
-    if (isVaultTxSuccess && (withdrawStep === 'withdrawing' || withdrawStep === 'error')) {
-      console.log('✅ [BUILD v5.7] Withdrawal confirmed on-chain');
-      setWithdrawStep('confirming');
-      addMessage({
-        type: 'success',
-        message: `Withdrawal of ${withdrawAmount} USDC completed successfully!`,
-        txHash: vaultTxHash,
-        chainId
-      });
-      refreshAllBalances();
-    }
-    
-    // Transaction receipt errors (tx submitted but reverted)
-    if (isUSDCTxError && depositStep === 'approving') {
-      console.log('❌ [BUILD v5.7] Approval tx reverted on-chain');
-      setDepositStep('error');
-      setErrorMessage('USDC approval transaction reverted. Please try again.');
-      upsertMessage('deposit-approving', { type: 'error', message: 'Approval failed on-chain.', txHash: usdcTxHash, chainId });
-    }
-    
-    if (isVaultTxError && depositStep === 'depositing') {
-      console.log('❌ [BUILD v5.7] Deposit tx reverted on-chain');
-      setDepositStep('error');
-      setErrorMessage('Deposit transaction reverted on-chain. Please try again.');
-      upsertMessage('deposit-pending', { type: 'error', message: 'Deposit failed.', txHash: vaultTxHash, chainId });
-    }
-    
-    if (isVaultTxError && withdrawStep === 'withdrawing') {
-      console.log('❌ [BUILD v5.7] Withdrawal tx reverted on-chain');
-      setWithdrawStep('error');
-      setErrorMessage('Withdrawal transaction reverted on-chain. Please try again.');
-    }
-
-    // WriteContract errors (tx submission failed)
-    if (usdcWriteError && depositStep === 'approving') {
-      console.log('⚠️ [BUILD v5.7] USDC write error:', usdcWriteError.message);
-      removeMessage('deposit-approving'); // Clear the approving message on error
-      
-      if (isUserRejection(usdcWriteError)) {
-        setDepositStep('error');
-        setErrorMessage('Transaction was rejected. Please try again if you want to proceed.');
-      } else if (isMetaMaskSimulationError(usdcWriteError)) {
-        // MetaMask simulation error - might be a false negative
-        console.log('🔍 [BUILD v5.7] MetaMask simulation error detected - checking allowance...');
-        // Check if approval actually worked
-        refetchAllowance().then((result) => {
-          const newAllowance = result.data as bigint | undefined;
-          if (newAllowance && newAllowance > BigInt(0)) {
-            console.log('✅ [BUILD v5.7] Approval succeeded despite MetaMask error!');
-            upsertMessage('deposit-approving', { type: 'success', message: 'Approval confirmed! Proceeding...' });
-            handleConfirmDeposit();
-          } else {
-            setDepositStep('error');
-            setErrorMessage(
-              'MetaMask reported an error, but this may be a false negative on testnets. ' +
-              'Please check Arbiscan to verify, then try again. Consider using Rabby wallet.'
-            );
-          }
-        });
-        return;
-      } else {
-        setDepositStep('error');
-        setErrorMessage(`Approval failed: ${usdcWriteError.message || 'Please try again.'}`);
-      }
-    }
-    
-    if (vaultWriteError && depositStep === 'depositing') {
-      console.log('⚠️ [BUILD v5.7] Vault write error (deposit):', vaultWriteError.message);
-      removeMessage('deposit-pending');
-      
-      if (isUserRejection(vaultWriteError)) {
-        setDepositStep('error');
-        setErrorMessage('Transaction was rejected. Please try again if you want to proceed.');
-      } else if (isMetaMaskSimulationError(vaultWriteError)) {
-        setDepositStep('error');
-        setErrorMessage(
-          'MetaMask reported an error, but this may be a false negative on testnets. ' +
-          'Please check Arbiscan to verify your transaction. Consider using Rabby wallet.'
-        );
-        // Still refresh balances in case it worked
-        refreshAllBalances();
-      } else {
-        setDepositStep('error');
-        setErrorMessage(`Deposit failed: ${vaultWriteError.message || 'Please try again.'}`);
-      }
-    }
-    
-    if (vaultWriteError && withdrawStep === 'withdrawing') {
-      console.log('⚠️ [BUILD v5.7] Vault write error (withdraw):', vaultWriteError.message);
-      
-      if (isUserRejection(vaultWriteError)) {
-        setWithdrawStep('error');
-        setErrorMessage('Transaction was rejected. Please try again if you want to proceed.');
-      } else if (isMetaMaskSimulationError(vaultWriteError)) {
-        setWithdrawStep('error');
-        setErrorMessage(
-          'MetaMask reported an error, but this may be a false negative on testnets. ' +
-          'Please check Arbiscan to verify your transaction. Consider using Rabby wallet.'
-        );
-        // Still refresh balances in case it worked
-        refreshAllBalances();
-      } else {
-        setWithdrawStep('error');
-        setErrorMessage(`Withdrawal failed: ${vaultWriteError.message || 'Please try again.'}`);
-      }
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isUSDCTxSuccess, isVaultTxSuccess, isUSDCTxError, isVaultTxError, usdcWriteError, vaultWriteError, depositStep, withdrawStep, usdcTxHash, vaultTxHash, chainId, depositAmount, withdrawAmount]);
-
-  // If user cancels in wallet or transaction fails, show appropriate error
-  useEffect(() => {
-    const isUserRejection = (error: Error | null) => {
-      if (!error) return false;
-      const msg = error.message?.toLowerCase() || '';
-      return msg.includes('user rejected') || 
-             msg.includes('rejected') || 
-             msg.includes('denied') ||
-             msg.includes('cancelled') ||
-             msg.includes('canceled');
-    };
-
-    // Extract a clean, user-friendly error message
-    const getCleanErrorMessage = (error: Error, action: string): string => {
-      const msg = error.message || '';
-      
-      // Check for common contract errors
-      if (msg.includes('insufficient funds')) {
-        return 'Insufficient funds for gas fees.';
-      }
-      if (msg.includes('SignatureExpired')) {
-        return 'Signature expired. Please try again.';
-      }
-      if (msg.includes('InvalidSignature')) {
-        return 'Invalid signature from oracle. Please try again.';
-      }
-      if (msg.includes('InvalidAmount')) {
-        return 'Invalid amount. Please check your input.';
-      }
-      if (msg.includes('reverted')) {
-        // Extract just the revert reason if possible
-        const revertMatch = msg.match(/reverted with the following reason:\s*([^.]+)/);
-        if (revertMatch) {
-          return `${action} failed: ${revertMatch[1].slice(0, 100)}`;
-        }
-        return `${action} failed: Transaction reverted. Please try again.`;
-      }
-      
-      // Truncate long messages
-      const cleanMsg = msg.split('Contract Call:')[0].trim();
-      if (cleanMsg.length > 150) {
-        return cleanMsg.slice(0, 150) + '...';
-      }
-      return cleanMsg || `${action} failed. Please try again.`;
-    };
-
-    if (usdcWriteError && depositStep === 'approving') {
-      setDepositStep('error');
-      if (isUserRejection(usdcWriteError)) {
-      setErrorMessage('Approval was cancelled in wallet.');
-      } else {
-        console.error('Approval error:', usdcWriteError);
-        setErrorMessage(getCleanErrorMessage(usdcWriteError, 'Approval'));
-      }
-    }
-    if (vaultWriteError && depositStep === 'depositing') {
-      setDepositStep('error');
-      if (isUserRejection(vaultWriteError)) {
-      setErrorMessage('Deposit was cancelled in wallet.');
-      } else {
-        console.error('Deposit error:', vaultWriteError);
-        setErrorMessage(getCleanErrorMessage(vaultWriteError, 'Deposit'));
-      }
-    }
-    if (vaultWriteError && withdrawStep === 'withdrawing') {
-      setWithdrawStep('error');
-      if (isUserRejection(vaultWriteError)) {
-      setErrorMessage('Withdrawal was cancelled in wallet.');
-      } else {
-        console.error('Withdrawal error:', vaultWriteError);
-        setErrorMessage(getCleanErrorMessage(vaultWriteError, 'Withdrawal'));
-      }
-    }
-  }, [usdcWriteError, vaultWriteError, depositStep, withdrawStep]);
+  const errorMessage = tx.error?.message ?? '';
 
   // Render different states based on currentState
   const renderBalanceState = () => (
@@ -801,8 +562,13 @@ export const BalanceFigma = () => {
                 <img src="/usdc-icon.svg" alt="USDC" className="w-6 h-6" />
               </div>
             </div>
-            {depositValidationError && (
-              <p className="text-red-400 text-sm mt-1">{depositValidationError}</p>
+            {(depositValidationError || depositLimitError) && (
+              <p className="text-red-400 text-sm mt-1">{depositValidationError || depositLimitError}</p>
+            )}
+            {!depositValidationError && !depositLimitError && previewDepositShares !== undefined && (
+              <p className="text-gray-400 text-xs mt-2">
+                You receive ≈ {formatAmount(toAmount(previewDepositShares, SHARE_DECIMALS), { maxFractionDigits: 4, minFractionDigits: 4 })} shares
+              </p>
             )}
           </div>
 
@@ -818,7 +584,7 @@ export const BalanceFigma = () => {
             <Button 
               variant="primary"
               onClick={handleInitiateDeposit}
-              disabled={!depositAmount || !isConnected || !isValidAmount(depositAmount) || !!depositValidationError}
+              disabled={!depositAmount || !isConnected || !isValidAmount(depositAmount) || !!depositValidationError || !!depositLimitError}
             >
               {depositAmount && isValidAmount(depositAmount) && hasEnoughAllowance(depositAmount) ? 'Deposit' : 'Approve'}
             </Button>
@@ -861,16 +627,11 @@ export const BalanceFigma = () => {
               Cancel
             </button>
             <button 
-              onClick={handleConfirmDeposit}
-              disabled={isUSDCPending || isUSDCTxLoading}
-              className={`${(isUSDCPending || isUSDCTxLoading) ? 'bg-gray3 text-white border border-gray4' : 'bg-white text-black hover:bg-gray-100'} h-12 px-4 rounded-lg font-medium transition-colors text-sm disabled:opacity-50 flex items-center justify-center flex-1`}
-              aria-busy={isUSDCPending || isUSDCTxLoading}
+              disabled
+              className="bg-gray3 text-white border border-gray4 h-12 px-4 rounded-lg font-medium transition-colors text-sm disabled:opacity-50 flex items-center justify-center flex-1"
+              aria-busy="true"
             >
-              {(isUSDCPending || isUSDCTxLoading) ? (
-                'Processing...'
-              ) : (
-                'Confirm'
-              )}
+              {tx.approvalHash ? 'Approving...' : 'Processing...'}
             </button>
           </div>
         </>
@@ -914,13 +675,51 @@ export const BalanceFigma = () => {
       );
     }
 
+    // Review step - priced (and simulated unless an approval comes first), waiting for the user before any wallet prompt
+    if (depositStep === 'review') {
+      return (
+        <>
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-medium text-white font-display">Deposit</h3>
+          </div>
+          
+          <div className="mb-4">
+            <div className="relative">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={depositAmount}
+                disabled
+                className="w-full bg-gray1 text-white p-4 rounded border border-gray4 pr-20 text-base"
+              />
+              <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center gap-2">
+                <span className="text-gray-400 text-sm">USDC</span>
+                <img src="/usdc-icon.svg" alt="USDC" className="w-6 h-6" />
+              </div>
+            </div>
+            <SimulationSummary simulation={tx.simulation} nativeBalance={nativeBalance?.value} className="mt-2" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="secondary" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={tx.confirm}>
+              Confirm
+            </Button>
+          </div>
+        </>
+      );
+    }
+
     // Confirming step - transaction confirmed
     if (depositStep === 'confirming') {
       // Calculate values for display using accurate performance data
       // Deposits = the amount just deposited by the user
-      const justDeposited = depositAmount ? parseFloat(depositAmount) : 0;
-      const currentTotal = userVaultValue || 0; // Use accurate user total from performance hook
-      const previousAmount = Math.max(0, currentTotal - justDeposited);
+      const justDeposited = depositAssets ?? BigInt(0);
+      const currentTotal = userVaultAssets; // Use accurate user total from performance hook
+      const previousAmount = currentTotal > justDeposited ? currentTotal - justDeposited : BigInt(0);
 
       return (
         <>
@@ -934,16 +733,16 @@ export const BalanceFigma = () => {
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Deposits</span>
-                <span className="text-white font-medium">{justDeposited.toLocaleString()} USDC</span>
+                <span className="text-white font-medium">{formatUsdc(justDeposited, { minFractionDigits: 0 })} USDC</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Previous</span>
-                <span className="text-gray-400 font-medium">{previousAmount.toFixed(2)} USDC</span>
+                <span className="text-gray-400 font-medium">{formatUsdc(previousAmount)} USDC</span>
               </div>
               <div className="border-t border-gray3 pt-3">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300 text-sm">Total</span>
-                  <span className="text-white font-semibold">{currentTotal.toLocaleString()} USDC</span>
+                  <span className="text-white font-semibold">{formatUsdc(currentTotal, { minFractionDigits: 0 })} USDC</span>
                 </div>
               </div>
             </div>
@@ -955,31 +754,11 @@ export const BalanceFigma = () => {
               variant="secondary"
               className="px-6"
               onClick={() => {
-                if (vaultTxHash && chainId) {
-                  const getBlockExplorerUrl = (chainId: number, txHash: string) => {
-                    switch (chainId) {
-                      case 31337: // localhost - no block explorer
-                        console.log('Transaction hash:', txHash);
-                        alert(`Transaction hash: ${txHash}\n(No block explorer for localhost)`);
-                        return;
-                      case 84532: // Base Sepolia
-                        return `https://sepolia.basescan.org/tx/${txHash}`;
-                      case 421614: // Arbitrum Sepolia
-                        return `https://sepolia.arbiscan.io/tx/${txHash}`;
-                      case 11155420: // Optimism Sepolia
-                        return `https://sepolia.optimistic.etherscan.io/tx/${txHash}`;
-                      default:
-                        return `https://etherscan.io/tx/${txHash}`; // Default to Ethereum mainnet
-                    }
-                  };
-                  
-                  const url = getBlockExplorerUrl(chainId, vaultTxHash);
-                  if (url) {
-                    window.open(url, '_blank');
-                  }
+                if (tx.hash && tx.chainId) {
+                  openTransactionInExplorer(tx.chainId, tx.hash);
                 }
               }}
-              disabled={!vaultTxHash}
+              disabled={!tx.hash}
             >
               View transaction
             </Button>
@@ -988,7 +767,7 @@ export const BalanceFigma = () => {
               className="flex-1"
               onClick={() => {
                 setCurrentState('balance');
-                setDepositStep('input');
+                tx.cancel();
                 setDepositAmount('');
                 clearMessages();
               }}
@@ -1027,7 +806,7 @@ export const BalanceFigma = () => {
                 Cancel
               </button>
               <button 
-                onClick={handleRetry}
+                onClick={tx.retry}
                 className="bg-white text-black py-2 px-4 rounded font-medium hover:bg-gray-100 transition-colors text-sm flex-1"
               >
                 Try Again
@@ -1042,56 +821,65 @@ export const BalanceFigma = () => {
   };
 
   // Calculate withdrawable amount using accurate performance data
-  const withdrawableAmount = userVaultValue || 0; // User's deposited funds available
+  const withdrawableAmount = userVaultAssets; // User's deposited funds available (base units)
   
-  const isWithdrawAmountValid = withdrawAmount && isValidAmount(withdrawAmount);
-  const hasEnoughWithdrawBalance = withdrawableAmount > 0 && isValidAmount(withdrawAmount) && parseFloat(withdrawAmount) <= withdrawableAmount;
-  const canWithdraw = isWithdrawAmountValid && hasEnoughWithdrawBalance && !isVaultPending && !withdrawValidationError;
-
-  // BUILD v5.7: Withdraw using wagmi writeContract with explicit gas limits
+  const isWithdrawAmountValid = isWithdrawAll || (withdrawAmount && isValidAmount(withdrawAmount));
+  const hasEnoughWithdrawBalance = redeemShares !== undefined
+    ? redeemShares > BigInt(0) && redeemShares <= maxRedeemableShares
+    : withdrawAssets !== undefined && maxWithdrawAssets !== undefined
+      ? withdrawAssets <= maxWithdrawAssets
+      : withdrawableAmount > BigInt(0) && withdrawAssets !== undefined && withdrawAssets <= withdrawableAmount;
+  const canWithdraw = isWithdrawAmountValid && hasEnoughWithdrawBalance && !tx.isBusy && !withdrawValidationError && !withdrawLimitError;
+
+  // BUILD v5.7: Withdraw through the shared transaction flow with explicit gas limits
   const handleWithdraw = () => {
-    if (!withdrawAmount || !chainId || !address || !canWithdraw) return;
+    if (!chainId || !address || !canWithdraw) return;
     
     // Final validation check before proceeding
-    if (!isValidAmount(withdrawAmount)) {
+    if (!isWithdrawAll && !isValidAmount(withdrawAmount)) {
       setWithdrawValidationError('Please enter a valid amount');
       return;
     }
-    
-    setWithdrawStep('withdrawing');
-    resetVaultWrite(); // Reset any previous write state
-    console.log('💳 [BUILD v5.7] Starting withdrawal:', withdrawAmount, 'USDC');
-    
-    const assetsWei = parseUnits(withdrawAmount, 6);
-    
-    // Use wagmi writeContract with explicit gas limit
-    writeVault({
-      address: getContractAddress(chainId) as `0x${string}`,
-      abi: AAVE_VAULT_ABI,
-      functionName: 'withdraw',
-      args: [assetsWei, address as `0x${string}`, address as `0x${string}`],
-      gas: BigInt(350000), // Explicit gas limit
+
+    // Redeem exact shares for "withdraw all" and share-denominated exits so no dust is left behind
+    const amount = redeemShares !== undefined ? { shares: redeemShares } : { assets: parseUnits(withdrawAmount, 6) };
+    const expectedAssets = expectedWithdrawAssets;
+    console.log('💳 [BUILD v5.7] Starting withdrawal', isWithdrawAll ? '(withdraw all)' : '');
+
+    tx.start({
+      kind: 'withdraw',
+      review: true,
+      request: async () => buildWithdrawRequest(chainId, address, amount),
+      onConfirmed: hash => {
+        addMessage({
+          type: 'success',
+          message: `Withdrawal of ${formatUsdc(expectedAssets)} USDC completed successfully!`,
+          txHash: hash,
+          chainId
+        });
+        refreshAllBalances();
+      },
+      onFailed: error => {
+        // The transaction may have gone through despite the wallet error
+        if (error.kind === 'simulation') refreshAllBalances();
+      },
     });
   };
 
   const renderWithdrawState = () => {
     // Calculate values for display - available across all steps using accurate performance data
     // For withdraw, estimate deposits based on vault shares and use accurate total
-    const userVaultShares = vaultShares ? parseFloat(formatUnits(vaultShares, 6)) : 0; // shares decimals ~ underlying (USDC: 6)
-    const currentDeposits = userVaultShares; // assume initial sharePrice ~1
-    const currentTotal = userVaultValue || 0;
-    const totalYield = Math.max(0, currentTotal - currentDeposits);
+    const currentDeposits = vaultShares ?? BigInt(0); // assume initial sharePrice ~1 (shares decimals ~ underlying, USDC: 6)
+    const currentTotal = userVaultAssets;
+    const totalYield = currentTotal > currentDeposits ? currentTotal - currentDeposits : BigInt(0);
     
     // Calculate yield specifically for the withdrawal amount
-    const withdrawalAmount = withdrawAmount ? parseFloat(withdrawAmount) : 0;
-    
-    // Calculate what percentage of the vault is original deposits vs yield
-    const depositPercentage = currentTotal > 0 ? currentDeposits / currentTotal : 0;
-    const yieldPercentage = currentTotal > 0 ? totalYield / currentTotal : 0;
+    const withdrawalAmount = expectedWithdrawAssets;
     
-    // For withdrawal: how much of the withdrawal amount represents original deposits vs yield
-    const withdrawalDeposits = withdrawalAmount * depositPercentage;
-    const withdrawalYield = withdrawalAmount * yieldPercentage;
+    // For withdrawal: how much of the withdrawal amount represents original deposits vs yield,
+    // split in proportion to the position's deposits and yield
+    const withdrawalDeposits = currentTotal > BigInt(0) ? mulDiv(withdrawalAmount, currentDeposits, currentTotal) : BigInt(0);
+    const withdrawalYield = currentTotal > BigInt(0) ? mulDiv(withdrawalAmount, totalYield, currentTotal) : BigInt(0);
 
     // Input step - user enters amount
     if (withdrawStep === 'input') {
@@ -1107,21 +895,42 @@ export const BalanceFigma = () => {
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Deposits</span>
-                <span className="text-white font-medium">{currentDeposits.toFixed(2)} USDC</span>
+                <span className="text-white font-medium">{formatUsdc(currentDeposits)} USDC</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Yield</span>
-                <span className="text-green-400 font-medium">{totalYield.toFixed(2)} USDC</span>
+                <span className="text-green-400 font-medium">{formatUsdc(totalYield)} USDC</span>
               </div>
               <div className="border-t border-gray3 pt-3">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300 text-sm">Total</span>
-                  <span className="text-white font-semibold">{currentTotal.toFixed(2)} USDC</span>
+                  <span className="text-white font-semibold">{formatUsdc(currentTotal)} USDC</span>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Withdraw unit toggle - asset amount or vault shares */}
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-gray-400 text-xs">Withdraw in</span>
+            <div className="flex gap-1">
+              {(['assets', 'shares'] as const).map((unit) => (
+                <button
+                  key={unit}
+                  onClick={() => {
+                    setWithdrawUnit(unit);
+                    setWithdrawAmount('');
+                    setIsWithdrawAll(false);
+                    setWithdrawValidationError('');
+                  }}
+                  className={`text-xs px-2 py-1 rounded ${withdrawUnit === unit ? 'bg-gray3 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {unit === 'assets' ? 'USDC' : 'Shares'}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Amount Input */}
           <div className="mb-4">
             <div className="relative">
@@ -1129,16 +938,17 @@ export const BalanceFigma = () => {
                 type="text"
                 inputMode="decimal"
                 placeholder="0"
-                value={withdrawAmount}
+                value={withdrawInputValue}
                 onChange={(e) => {
                   const sanitized = sanitizeAmountInput(e.target.value);
                   setWithdrawAmount(sanitized);
+                  setIsWithdrawAll(false);
                   // Clear validation error when user starts typing
                   if (withdrawValidationError) setWithdrawValidationError('');
                 }}
                 onBlur={() => {
                   // Validate on blur
-                  if (withdrawAmount && !isValidAmount(withdrawAmount)) {
+                  if (!isWithdrawAll && withdrawAmount && !isValidAmount(withdrawAmount)) {
                     setWithdrawValidationError('Please enter a valid amount');
                   }
                 }}
@@ -1146,7 +956,9 @@ export const BalanceFigma = () => {
               />
               <button
                 onClick={() => {
-                  setWithdrawAmount(withdrawableAmount.toFixed(6));
+                  // Max redeems the exact share balance rather than a float-derived asset amount
+                  setIsWithdrawAll(true);
+                  setWithdrawAmount(withdrawUnit === 'shares' ? formatUnits(maxRedeemableShares, 6) : formatUnits(withdrawableAmount, 6));
                   setWithdrawValidationError('');
                 }}
                 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-blue-400 text-sm hover:text-blue-300"
@@ -1154,8 +966,22 @@ export const BalanceFigma = () => {
                 Max
               </button>
             </div>
-            {withdrawValidationError && (
-              <p className="text-red-400 text-sm mt-1">{withdrawValidationError}</p>
+            {(withdrawValidationError || withdrawLimitError) && (
+              <p className="text-red-400 text-sm mt-1">{withdrawValidationError || withdrawLimitError}</p>
+            )}
+            {!withdrawLimitError && previewWithdrawShares !== undefined && withdrawAssets !== undefined && (
+              <p className="text-gray-400 text-xs mt-2">
+                Burns ≈ {formatAmount(toAmount(previewWithdrawShares, SHARE_DECIMALS), { maxFractionDigits: 4, minFractionDigits: 4 })} shares
+              </p>
+            )}
+            {redeemShares !== undefined && redeemShares > BigInt(0) && (
+              <p className="text-gray-400 text-xs mt-2">
+                {isWithdrawAll ? `Redeeming all ${formatUnits(redeemShares, 6)} shares` : `Redeeming ${formatUnits(redeemShares, 6)} shares`}
+                {' · '}
+                {previewRedeemAssets !== undefined
+                  ? `you receive ≈ ${formatUsdc(previewRedeemAssets)} USDC`
+                  : 'quoting...'}
+              </p>
             )}
           </div>
 
@@ -1179,7 +1005,7 @@ export const BalanceFigma = () => {
           </div>
 
           {/* Error/Warning Messages */}
-          {!hasEnoughWithdrawBalance && withdrawAmount && (
+          {!hasEnoughWithdrawBalance && !withdrawLimitError && withdrawAmount && (
             <div className="mt-3 text-red-400 text-sm">
               Insufficient vault balance
             </div>
@@ -1202,16 +1028,16 @@ export const BalanceFigma = () => {
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Deposits</span>
-                <span className="text-white font-medium">{withdrawalDeposits.toFixed(2)} USDC</span>
+                <span className="text-white font-medium">{formatUsdc(withdrawalDeposits)} USDC</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Yield</span>
-                <span className="text-green-400 font-medium">{withdrawalYield.toFixed(2)} USDC</span>
+                <span className="text-green-400 font-medium">{formatUsdc(withdrawalYield)} USDC</span>
               </div>
               <div className="border-t border-gray3 pt-3">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300 text-sm">Total</span>
-                  <span className="text-white font-semibold">{withdrawalAmount.toFixed(2)} USDC</span>
+                  <span className="text-white font-semibold">{formatUsdc(withdrawalAmount)} USDC</span>
                 </div>
               </div>
             </div>
@@ -1227,6 +1053,36 @@ export const BalanceFigma = () => {
       );
     }
 
+    // Review step - priced (and simulated unless an approval comes first), waiting for the user before any wallet prompt
+    if (withdrawStep === 'review') {
+      return (
+        <>
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-base font-medium text-white font-display">Withdraw</h3>
+          </div>
+          
+          {/* Summary */}
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-3">
+              <span className="text-gray-300 text-sm">Total</span>
+              <span className="text-white font-semibold">{formatUsdc(withdrawalAmount)} USDC</span>
+            </div>
+            <SimulationSummary simulation={tx.simulation} nativeBalance={nativeBalance?.value} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="secondary" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={tx.confirm}>
+              Confirm
+            </Button>
+          </div>
+        </>
+      );
+    }
+
     // Confirming step - transaction confirmed
     if (withdrawStep === 'confirming') {
       return (
@@ -1241,16 +1097,16 @@ export const BalanceFigma = () => {
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Deposits</span>
-                <span className="text-white font-medium">{withdrawalDeposits.toFixed(2)} USDC</span>
+                <span className="text-white font-medium">{formatUsdc(withdrawalDeposits)} USDC</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-300 text-sm">Yield</span>
-                <span className="text-green-400 font-medium">{withdrawalYield.toFixed(2)} USDC</span>
+                <span className="text-green-400 font-medium">{formatUsdc(withdrawalYield)} USDC</span>
               </div>
               <div className="border-t border-gray3 pt-3">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300 text-sm">Total</span>
-                  <span className="text-white font-semibold">{withdrawalAmount.toFixed(2)} USDC</span>
+                  <span className="text-white font-semibold">{formatUsdc(withdrawalAmount)} USDC</span>
                 </div>
               </div>
             </div>
@@ -1262,31 +1118,11 @@ export const BalanceFigma = () => {
               variant="secondary"
               className="px-6"
               onClick={() => {
-                if (vaultTxHash && chainId) {
-                  const getBlockExplorerUrl = (chainId: number, txHash: string) => {
-                    switch (chainId) {
-                      case 31337: // localhost - no block explorer
-                        console.log('Transaction hash:', txHash);
-                        alert(`Transaction hash: ${txHash}\n(No block explorer for localhost)`);
-                        return;
-                      case 84532: // Base Sepolia
-                        return `https://sepolia.basescan.org/tx/${txHash}`;
-                      case 421614: // Arbitrum Sepolia
-                        return `https://sepolia.arbiscan.io/tx/${txHash}`;
-                      case 11155420: // Optimism Sepolia
-                        return `https://sepolia.optimistic.etherscan.io/tx/${txHash}`;
-                      default:
-                        return `https://etherscan.io/tx/${txHash}`; // Default to Ethereum mainnet
-                    }
-                  };
-                  
-                  const url = getBlockExplorerUrl(chainId, vaultTxHash);
-                  if (url) {
-                    window.open(url, '_blank');
-                  }
+                if (tx.hash && tx.chainId) {
+                  openTransactionInExplorer(tx.chainId, tx.hash);
                 }
               }}
-              disabled={!vaultTxHash}
+              disabled={!tx.hash}
             >
               View transaction
             </Button>
@@ -1295,8 +1131,9 @@ export const BalanceFigma = () => {
               className="flex-1"
               onClick={() => {
                 setCurrentState('balance');
-                setWithdrawStep('input');
+                tx.cancel();
                 setWithdrawAmount('');
+                setIsWithdrawAll(false);
                 clearMessages();
               }}
             >
@@ -1331,7 +1168,7 @@ export const BalanceFigma = () => {
           Cancel
         </button>
               <button 
-                onClick={() => setWithdrawStep('input')}
+                onClick={tx.retry}
                 className="bg-gray-800 text-white py-2 px-4 rounded font-medium hover:bg-gray-700 transition-colors text-sm flex-1"
               >
                 Try Again
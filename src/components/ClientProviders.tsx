@@ -1,30 +1,30 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { WagmiProvider, http } from 'wagmi';
-import { mainnet, sepolia, baseSepolia, localhost, arbitrumSepolia, optimismSepolia } from 'wagmi/chains';
+import { WagmiProvider, http, fallback } from 'wagmi';
+import type { Chain, Transport } from 'viem';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider, getDefaultConfig } from '@rainbow-me/rainbowkit';
 import { ApolloProvider } from '@apollo/client';
 import React, { createContext, useContext } from 'react';
 import { apolloClient } from '../lib/apollo-client';
+import { CHAINS } from '@/constants/chains';
+import { DeploymentProvider } from '@/contexts/DeploymentContext';
 import '@rainbow-me/rainbowkit/styles.css';
 import TermsModal from './TermsModal';
 import MetaMaskWarning from './MetaMaskWarning';
 
+// Chains offered in the wallet come from the chain registry
+const walletChains = CHAINS.filter(chain => chain.walletEnabled);
+
 // Wagmi configuration - using WalletConnect Project ID from environment
 const config = getDefaultConfig({
   appName: 'AAVE Vault Rebalancer',
   projectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || 'your-project-id',
-  chains: [mainnet, sepolia, baseSepolia, localhost, arbitrumSepolia, optimismSepolia],
-  transports: {
-    [mainnet.id]: http(),
-    [sepolia.id]: http(),
-    [baseSepolia.id]: http(),
-    [localhost.id]: http(),
-    [arbitrumSepolia.id]: http(),
-    [optimismSepolia.id]: http(),
-  },
+  chains: walletChains.map(chain => chain.viemChain) as [Chain, ...Chain[]],
+  transports: Object.fromEntries(
+    walletChains.map(chain => [chain.id, fallback(chain.rpcUrls.map(url => http(url)))])
+  ) as Record<number, Transport>,
   ssr: false, // Disable SSR to avoid hydration issues
 });
 
@@ -68,18 +68,20 @@ export default function ClientProviders({ children }: ClientProvidersProps) {
   }
 
   return (
-    <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
-        <ApolloProvider client={apolloClient}>
-          <RainbowKitProvider>
-            <MockDataContext.Provider value={{ useMock, setUseMock }}>
-              {children}
-              <TermsModal />
-              <MetaMaskWarning />
-            </MockDataContext.Provider>
-          </RainbowKitProvider>
-        </ApolloProvider>
-      </QueryClientProvider>
-    </WagmiProvider>
+    <DeploymentProvider>
+      <WagmiProvider config={config}>
+        <QueryClientProvider client={queryClient}>
+          <ApolloProvider client={apolloClient}>
+            <RainbowKitProvider>
+              <MockDataContext.Provider value={{ useMock, setUseMock }}>
+                {children}
+                <TermsModal />
+                <MetaMaskWarning />
+              </MockDataContext.Provider>
+            </RainbowKitProvider>
+          </ApolloProvider>
+        </QueryClientProvider>
+      </WagmiProvider>
+    </DeploymentProvider>
   );
 } 
\ No newline at end of file
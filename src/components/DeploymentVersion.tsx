@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+import { useDeployment } from '@/contexts/DeploymentContext';
+
+// Small footer label so support can tell which deployment a user was looking at
+const DeploymentVersion = () => {
+  const { version, environment, source, error } = useDeployment();
+
+  return (
+    <div
+      className="text-secondary text-xs text-center"
+      title={error ? `Manifest unavailable: ${error}` : undefined}
+    >
+      Deployment {version} · {environment}
+      {source === 'builtin' && ' (built-in)'}
+    </div>
+  );
+};
+
+export default DeploymentVersion;
@@ -3,7 +3,7 @@
 import React from 'react';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAccount, useBalance, useChainId, useReadContract } from 'wagmi';
-import { formatUnits } from 'viem';
+import { formatUsdc } from '@/lib/amount';
 import { ERC20_ABI, getUSDCAddress } from '@/utils/contracts';
 
 export const EthereumWalletConnection: React.FC = () => {
@@ -84,8 +84,7 @@ export const EthereumWalletConnection: React.FC = () => {
                   }
 
                   // COMPACT one-line card matching Figma
-                  const usdcNum = usdcBalance ? parseFloat(formatUnits(usdcBalance as bigint, 6)) : 0;
-                  const usdcFormatted = usdcNum.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+                  const usdcFormatted = formatUsdc((usdcBalance as bigint | undefined) ?? BigInt(0));
                   return (
                     <div>
                       <button
@@ -29,7 +29,7 @@ export const MetaMaskWarning = () => {
           <div className="flex-1 min-w-0">
             <h4 className="text-yellow-200 font-medium text-sm">MetaMask + Arbitrum Sepolia</h4>
             <p className="text-yellow-100/80 text-xs mt-1 leading-relaxed">
-              This demo is running on Arbitrum Sepolia. MetaMask&apos;s transaction simulation doesn&apos;t fully support this network, so it may show your transactions as failed even when they&apos;ve actually succeeded. If in doubt, please double-check the status on the block explorer.
+              This demo is running on Arbitrum Sepolia. MetaMask&apos;s transaction simulation doesn&apos;t fully support this network, so it may show your transactions as failed even when they&apos;ve actually succeeded. Every vault transaction is simulated here before your wallet opens, so one that passed simulation is very likely fine. If in doubt, please double-check the status on the block explorer.
             </p>
           </div>
           <button
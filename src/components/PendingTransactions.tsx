@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import { getChainName, getExplorerTxUrl } from '@/constants/chains';
+import { usePendingTransactions, type PendingTxState } from '@/hooks/usePendingTransactions';
+import type { BroadcastStatus } from '@/utils/pendingTransactions';
+
+const STATUS_LABELS: Record<BroadcastStatus, string> = {
+  unsupported_chain: 'Unsupported chain',
+  not_broadcast: 'Not broadcast',
+  in_mempool: 'In mempool',
+  mined: 'Mined',
+  reverted: 'Reverted',
+  nonce_used: 'Nonce already used',
+  unknown: 'Unknown',
+};
+
+const STATUS_COLORS: Record<BroadcastStatus, string> = {
+  unsupported_chain: 'text-secondary',
+  not_broadcast: 'text-yellow-400',
+  in_mempool: 'text-blue-400',
+  mined: 'text-green-400',
+  reverted: 'text-red-400',
+  nonce_used: 'text-secondary',
+  unknown: 'text-red-400',
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+const PendingTransactionRow = ({ state, onBroadcast, onCheck }: {
+  state: PendingTxState;
+  onBroadcast: () => void;
+  onCheck: () => void;
+}) => {
+  const { tx, phase, status, blockNumber, error } = state;
+  const explorerUrl = tx.chainId !== undefined ? getExplorerTxUrl(tx.chainId, tx.hash) : null;
+  const busy = phase !== 'idle';
+
+  return (
+    <div className="bg-gray1 border border-gray3 rounded-md p-3 space-y-1 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-primary truncate">{tx.summary}</span>
+        <span className={status ? STATUS_COLORS[status] : 'text-secondary'}>
+          {phase === 'checking' ? 'Checking...' : phase === 'broadcasting' ? 'Broadcasting...' : status ? STATUS_LABELS[status] : '—'}
+          {status === 'mined' && blockNumber !== undefined && ` (block ${blockNumber})`}
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-secondary">
+        <span>
+          nonce {tx.nonce ?? '?'} · {tx.signer ? `signer ${shortHash(tx.signer)}` : 'signer unknown'} ·{' '}
+          {explorerUrl ? (
+            <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline">{shortHash(tx.hash)}</a>
+          ) : shortHash(tx.hash)}
+        </span>
+        <div className="flex items-center gap-3">
+          <button onClick={onCheck} disabled={busy} className="hover:text-primary disabled:opacity-50">
+            Recheck
+          </button>
+          {status === 'not_broadcast' && (
+            <button onClick={onBroadcast} disabled={busy} className="text-primary hover:text-white disabled:opacity-50">
+              Broadcast
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+// Operator view: agent-signed transactions per target chain, with a manual broadcast for when the relayer is stalled
+const PendingTransactions = () => {
+  const { groups, isLoading, error, refresh, check, broadcast } = usePendingTransactions();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl text-primary">Pending signed transactions</h1>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="bg-gray2 border border-gray3 rounded-md px-4 py-2 text-sm text-primary disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">Could not read signed transactions from NEAR: {error}</p>}
+      {!error && !isLoading && groups.length === 0 && (
+        <p className="text-secondary text-sm">No signed transactions waiting on the rebalancer contract.</p>
+      )}
+
+      {groups.map(({ chainId, transactions }) => (
+        <div key={chainId ?? 'unknown'} className="space-y-2">
+          <p className="text-secondary text-sm">
+            {chainId !== undefined ? getChainName(chainId) : 'Unknown chain'} · {transactions.length}
+          </p>
+          {transactions.map(state => (
+            <PendingTransactionRow
+              key={state.tx.hash}
+              state={state}
+              onCheck={() => check(state.tx)}
+              onBroadcast={() => broadcast(state.tx)}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PendingTransactions;
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { WaitForTransactionReceiptTimeoutError, type Hash, type ReplacementReason } from 'viem';
+import { useAccount, useSendTransaction } from 'wagmi';
+import { getChainName, getExplorerTxUrl } from '@/constants/chains';
+import { useTransactionStatus, type PendingTransaction } from '@/contexts/TransactionStatusContext';
+import { getPublicClient } from '@/utils/publicClient';
+import { buildCancelRequest, buildSpeedUpRequest, sentWithNonce } from '@/utils/txReplacement';
+import { isUserRejection } from '@/utils/vaultTxErrors';
+
+const shortHash = (hash: string) => `${hash.slice(0, 6)}...${hash.slice(-4)}`;
+
+type ReplaceAction = 'speedUp' | 'cancel';
+
+// How long each receipt wait polls before checking whether the follow was stopped
+const FOLLOW_WINDOW_MS = 60000;
+
+// Wallet transactions still waiting to be mined, with same-nonce speed-up and cancel
+export const PendingTransactionsTray: React.FC = () => {
+  const { address, chainId } = useAccount();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { pendingTransactions, updatePendingTransaction, resolvePendingTransaction, addMessage } = useTransactionStatus();
+  const [replacing, setReplacing] = useState<{ hash: string; action: ReplaceAction } | null>(null);
+  // Hashes this tray follows (a replacement shares its original's entry), flagged stopped on dismiss or unmount
+  const followsRef = useRef(new Map<string, { stopped: boolean }>());
+
+  // Nothing else is waiting once the tray is gone
+  useEffect(() => {
+    const follows = followsRef.current;
+    return () => {
+      follows.forEach(follow => { follow.stopped = true; });
+      follows.clear(); // Followed again if the tray remounts
+    };
+  }, []);
+
+  // No transaction flow waits on entries restored after a reload (or whose wait timed out), follow them here
+  useEffect(() => {
+    const follow = async (tx: PendingTransaction) => {
+      const handle = { stopped: false };
+      let latest = tx.hash;
+      let replacedReason = undefined as ReplacementReason | undefined;
+      followsRef.current.set(latest, handle);
+      console.log(`⏳ Following pending ${tx.label.toLowerCase()} ${tx.hash} on chain ${tx.chainId}`);
+
+      // A stuck transaction can take any time: wait in bounded windows so a stopped follow ends its polling
+      while (!handle.stopped) {
+        try {
+          const receipt = await getPublicClient(tx.chainId).waitForTransactionReceipt({
+            hash: latest as Hash,
+            timeout: FOLLOW_WINDOW_MS,
+            onReplaced: ({ reason, transaction }) => {
+              if (handle.stopped) return;
+              console.log(`🔁 Pending ${tx.label.toLowerCase()} ${reason}:`, transaction.hash);
+              updatePendingTransaction(latest, { hash: transaction.hash });
+              latest = transaction.hash;
+              followsRef.current.set(latest, handle);
+              replacedReason = reason;
+            },
+          });
+          if (handle.stopped) return;
+
+          resolvePendingTransaction(latest);
+          if (replacedReason === 'cancelled' || replacedReason === 'replaced') {
+            addMessage({ type: 'info', message: `${tx.label} was ${replacedReason} in wallet`, txHash: latest, chainId: tx.chainId });
+          } else if (receipt.status === 'success') {
+            addMessage({ type: 'success', message: `${tx.label} confirmed`, txHash: latest, chainId: tx.chainId });
+          } else {
+            addMessage({ type: 'error', message: `${tx.label} reverted on-chain`, txHash: latest, chainId: tx.chainId });
+          }
+          return;
+        } catch (error) {
+          if (error instanceof WaitForTransactionReceiptTimeoutError) continue;
+          if (!handle.stopped) console.warn(`⚠️ Stopped following ${latest}:`, error);
+          return;
+        }
+      }
+    };
+
+    for (const tx of pendingTransactions) {
+      if (!tx.watched && !followsRef.current.has(tx.hash)) void follow(tx);
+    }
+  }, [pendingTransactions, updatePendingTransaction, resolvePendingTransaction, addMessage]);
+
+  // Stop tracking: drop the entry and stop polling for it
+  const handleDismiss = (tx: PendingTransaction) => {
+    const follow = followsRef.current.get(tx.hash);
+    if (follow) follow.stopped = true;
+    followsRef.current.delete(tx.hash);
+    resolvePendingTransaction(tx.hash);
+  };
+
+  // The replacement is picked up by whoever waits on the original (onReplaced), not tracked separately
+  const handleReplace = async (tx: PendingTransaction, action: ReplaceAction) => {
+    const verb = action === 'speedUp' ? 'Speed-up' : 'Cancel';
+    setReplacing({ hash: tx.hash, action });
+    try {
+      const request = action === 'speedUp'
+        ? await buildSpeedUpRequest(tx.chainId, tx.hash as Hash)
+        : await buildCancelRequest(tx.chainId, tx.hash as Hash);
+      const hash = await sendTransactionAsync(request);
+
+      // Wallets that ignore a dapp-set nonce send the replacement as a new transaction, leaving the original pending
+      const honoured = await sentWithNonce(tx.chainId, hash, request.nonce);
+      if (honoured === false) {
+        console.error(`❌ ${verb} for ${tx.hash} was sent with a different nonce:`, hash);
+        addMessage({
+          type: 'error',
+          message: action === 'speedUp'
+            ? `Your wallet ignored the speed-up nonce and sent ${tx.label.toLowerCase()} again as a new transaction. Cancel that one in your wallet, or it runs twice.`
+            : `Your wallet ignored the cancel nonce, so ${tx.label.toLowerCase()} is still pending. Use your wallet's own cancel instead.`,
+          txHash: hash,
+          chainId: tx.chainId,
+        });
+        return;
+      }
+      addMessage({
+        type: 'info',
+        message: `${action === 'speedUp' ? 'Speeding up' : 'Cancelling'} ${tx.label.toLowerCase()}...`,
+        txHash: hash,
+        chainId: tx.chainId,
+      });
+    } catch (error) {
+      if (isUserRejection(error)) return;
+      console.error(`❌ ${verb} failed for ${tx.hash}:`, error);
+      const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      addMessage({ type: 'error', message: `${verb} failed: ${reason}` });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  if (pendingTransactions.length === 0) return null;
+
+  return (
+    <div className="bg-gray2 border border-gray3 rounded-md text-primary px-4 py-3 space-y-3">
+      <div className="text-sm">Pending transactions</div>
+      {pendingTransactions.map(tx => {
+        const explorerUrl = getExplorerTxUrl(tx.chainId, tx.hash);
+        // Replacements must come from the same account on the same chain
+        const isSender = !!address && address.toLowerCase() === tx.from.toLowerCase();
+        const canReplace = isSender && chainId === tx.chainId;
+        return (
+          <div key={tx.hash} className="space-y-1 text-xs">
+            <div className="flex items-center justify-between">
+              <span>
+                {tx.label} <span className="text-secondary">on {getChainName(tx.chainId)}</span>
+              </span>
+              <button
+                onClick={() => handleDismiss(tx)}
+                className="text-secondary hover:text-primary"
+                title="Stop tracking"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex items-center justify-between">
+              {explorerUrl ? (
+                <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-secondary hover:text-primary">
+                  {shortHash(tx.hash)} ↗
+                </a>
+              ) : (
+                <span className="text-secondary">{shortHash(tx.hash)}</span>
+              )}
+              {canReplace ? (
+                <span className="flex gap-3">
+                  <button
+                    onClick={() => handleReplace(tx, 'speedUp')}
+                    disabled={replacing !== null}
+                    className="text-secondary hover:text-primary disabled:opacity-50"
+                  >
+                    {replacing?.hash === tx.hash && replacing.action === 'speedUp' ? 'Sending...' : 'Speed up'}
+                  </button>
+                  <button
+                    onClick={() => handleReplace(tx, 'cancel')}
+                    disabled={replacing !== null}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    {replacing?.hash === tx.hash && replacing.action === 'cancel' ? 'Sending...' : 'Cancel'}
+                  </button>
+                </span>
+              ) : (
+                <span className="text-secondary">
+                  {isSender ? `Switch to ${getChainName(tx.chainId)}` : `Connect ${shortHash(tx.from)}`} to speed up or cancel
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PendingTransactionsTray;
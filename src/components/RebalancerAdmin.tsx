@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Message } from '@/components/Message';
+import { useNearWallet } from '@/contexts/NearWalletContext';
+import { useTransactionStatus, type StatusMessage } from '@/contexts/TransactionStatusContext';
+import { useNearContract } from '@/hooks/useNearContract';
+import { parseAmount } from '@/lib/amount';
+import {
+  DEFAULT_CALL_GAS,
+  NearCallError,
+  getNearContractId,
+  type ContractCallResult,
+  type NearContract,
+} from '@/utils/nearContract';
+
+const NEAR_DECIMALS = 24; // yoctoNEAR
+const TGAS = BigInt(1000000000000);
+const MAX_TGAS = 300; // Protocol limit per transaction
+
+const MESSAGE_KEY = 'near-admin';
+
+const MESSAGE_TYPES: Record<StatusMessage['type'], 'success' | 'error' | 'info' | 'loading'> = {
+  success: 'success',
+  error: 'error',
+  info: 'info',
+  pending: 'loading',
+};
+
+// Method names and argument shapes come from the rebalancer contract itself, so they are entered rather than hardcoded
+const METHOD_NAME = /^[a-z_][a-z0-9_]*$/;
+
+// JSON object of call arguments ("" for none); null when it isn't one
+const parseArgs = (input: string): Record<string, unknown> | null => {
+  if (input.trim() === '') return {};
+  try {
+    const value: unknown = JSON.parse(input);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+};
+
+// Contract for the configured network, or why there is none (mainnet without NEXT_PUBLIC_NEAR_CONTRACT_ID...)
+const resolveContractId = (): { contractId: string | null; configError: string | null } => {
+  try {
+    return { contractId: getNearContractId(), configError: null };
+  } catch (error) {
+    return { contractId: null, configError: error instanceof Error ? error.message : 'NEAR contract is not configured' };
+  }
+};
+
+const describeResult = (label: string, result: ContractCallResult) => {
+  if (result.status === 'redirected') return `${label} sent, continue in your wallet`;
+  const value = result.value !== undefined ? ` → ${JSON.stringify(result.value)}` : '';
+  return `${label} succeeded${value} (tx ${result.transactionHash})`;
+};
+
+const describeError = (label: string, error: unknown) => {
+  if (error instanceof NearCallError) {
+    switch (error.code) {
+      case 'not_signed_in':
+        return 'Connect a NEAR wallet first';
+      case 'rejected':
+        return `${label} was rejected in the wallet`;
+      case 'execution_failed':
+        return `${label} failed on chain: ${error.message}`;
+      default:
+        return `${label} failed: ${error.message}`;
+    }
+  }
+  return `${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+};
+
+// Operator controls for the NEAR rebalancer contract, signed with the connected NEAR wallet
+const RebalancerAdmin = () => {
+  const { accountId, isOperator, signIn, signOut, selector } = useNearWallet();
+  const { contractId, configError } = useMemo(resolveContractId, []);
+  const contract = useNearContract(contractId);
+  const { messages, upsertMessage } = useTransactionStatus();
+
+  const [gasTgas, setGasTgas] = useState(String(BigInt(DEFAULT_CALL_GAS) / TGAS));
+  const [depositNear, setDepositNear] = useState('');
+  const [methodName, setMethodName] = useState('');
+  const [argsInput, setArgsInput] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const gas = /^\d+$/.test(gasTgas) && Number(gasTgas) > 0 && Number(gasTgas) <= MAX_TGAS
+    ? (BigInt(gasTgas) * TGAS).toString()
+    : null;
+  // Dot decimals whatever the browser locale, like every other amount field; a de-DE "0.1" must not read as 1
+  const deposit = depositNear.trim() === '' ? undefined : parseAmount(depositNear, NEAR_DECIMALS, 'en-US')?.raw.toString();
+  const depositInvalid = depositNear.trim() !== '' && deposit === undefined;
+  const methodInvalid = methodName.trim() !== '' && !METHOD_NAME.test(methodName.trim());
+  const args = parseArgs(argsInput);
+
+  // Each action reports through the shared message system; no txHash so NEAR calls stay out of the vault activity feed
+  const run = async (label: string, action: (contract: NearContract) => Promise<ContractCallResult>) => {
+    if (!contract || busy) return;
+    setBusy(label);
+    upsertMessage(MESSAGE_KEY, { type: 'pending', message: `${label}: confirm in your NEAR wallet...` });
+    try {
+      const result = await action(contract);
+      console.log(`✅ ${label}:`, result);
+      upsertMessage(MESSAGE_KEY, {
+        type: result.status === 'redirected' ? 'info' : 'success',
+        message: describeResult(label, result),
+      });
+    } catch (error) {
+      console.error(`❌ ${label}:`, error);
+      upsertMessage(MESSAGE_KEY, { type: 'error', message: describeError(label, error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const method = methodName.trim();
+  const callDisabled = !contract || !isOperator || !!busy || !gas || depositInvalid || !method || methodInvalid || !args;
+
+  const handleCall = () => {
+    if (!gas || !args) return;
+    run(method, contract => contract.callMethod({ methodName: method, args, gas, ...(deposit !== undefined && { deposit }) }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl text-primary">Rebalancer administration</h1>
+        {accountId ? (
+          <button
+            onClick={() => signOut()}
+            className="bg-gray2 border border-gray3 rounded-md px-4 py-2 text-sm text-primary"
+          >
+            Disconnect {accountId}
+          </button>
+        ) : (
+          <button
+            onClick={signIn}
+            disabled={!selector}
+            className="bg-gray2 border border-gray3 rounded-md px-4 py-2 text-sm text-primary disabled:opacity-50"
+          >
+            {selector ? 'Connect NEAR wallet' : 'Loading wallets...'}
+          </button>
+        )}
+      </div>
+
+      {configError ? (
+        <p className="text-red-400 text-sm">{configError}</p>
+      ) : (
+        <p className="text-secondary text-sm">Contract {contractId}</p>
+      )}
+      {accountId && !isOperator && (
+        <p className="text-red-400 text-sm">{accountId} is not a configured operator account.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <label className="space-y-1">
+          <span className="text-secondary">Gas (Tgas)</span>
+          <input
+            value={gasTgas}
+            onChange={event => setGasTgas(event.target.value)}
+            inputMode="numeric"
+            className="w-full bg-gray1 border border-gray3 rounded-md px-3 py-2 text-primary"
+          />
+          {!gas && <span className="text-red-400 text-xs">1 to {MAX_TGAS} Tgas</span>}
+        </label>
+        <label className="space-y-1">
+          <span className="text-secondary">Deposit (NEAR)</span>
+          <input
+            value={depositNear}
+            onChange={event => setDepositNear(event.target.value)}
+            placeholder="Method default"
+            inputMode="decimal"
+            className="w-full bg-gray1 border border-gray3 rounded-md px-3 py-2 text-primary"
+          />
+          {depositInvalid && <span className="text-red-400 text-xs">Invalid amount</span>}
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <label className="block space-y-1">
+          <span className="text-secondary">Change method</span>
+          <input
+            value={methodName}
+            onChange={event => setMethodName(event.target.value)}
+            placeholder="method_name"
+            className="w-full bg-gray1 border border-gray3 rounded-md px-3 py-2 text-primary"
+          />
+          {methodInvalid && <span className="text-red-400 text-xs">Method names are lowercase letters, digits and underscores</span>}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-secondary">Arguments (JSON object)</span>
+          <textarea
+            value={argsInput}
+            onChange={event => setArgsInput(event.target.value)}
+            placeholder="{}"
+            rows={4}
+            className="w-full bg-gray1 border border-gray3 rounded-md px-3 py-2 text-primary font-mono"
+          />
+          {!args && <span className="text-red-400 text-xs">Enter a JSON object, or leave empty for no arguments</span>}
+        </label>
+        <button
+          onClick={handleCall}
+          disabled={callDisabled}
+          className="bg-white text-black rounded-md px-4 py-2 text-sm font-medium disabled:opacity-50"
+        >
+          {busy ? 'Waiting...' : 'Call method'}
+        </button>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-2">
+          {messages.map(message => (
+            <Message key={message.id} type={MESSAGE_TYPES[message.type]} id={message.id}>
+              <p className="text-sm break-all">{message.message}</p>
+            </Message>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RebalancerAdmin;
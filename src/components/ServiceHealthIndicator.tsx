@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import type { ServiceHealthState, ServiceStatus } from '@/hooks/useServiceHealth';
+
+const STATUS_COLORS: Record<ServiceStatus, string> = {
+  checking: 'bg-gray-400',
+  up: 'bg-green-500',
+  down: 'bg-red-500',
+};
+
+const STATUS_LABELS: Record<ServiceStatus, string> = {
+  checking: 'checking',
+  up: 'operational',
+  down: 'unavailable',
+};
+
+// Compact status row for the services behind deposits and the dashboard. The page polls once
+// (useServiceHealth) and hands the result to each placement
+const ServiceHealthIndicator = ({ health }: { health: ServiceHealthState }) => {
+  const { oracle, graphql, nearRpc, lastChecked, refresh } = health;
+
+  const services: { label: string; status: ServiceStatus }[] = [
+    { label: 'Oracle', status: oracle },
+    { label: 'Indexer', status: graphql },
+    { label: 'NEAR', status: nearRpc },
+  ];
+
+  return (
+    <button
+      type="button"
+      onClick={refresh}
+      className="flex items-center justify-center gap-4 w-full text-secondary text-xs"
+      title={lastChecked ? `Last checked ${lastChecked.toLocaleTimeString()} · click to refresh` : 'Checking services...'}
+    >
+      {services.map(({ label, status }) => (
+        <span key={label} className="flex items-center gap-1" aria-label={`${label} ${STATUS_LABELS[status]}`}>
+          <span className={`inline-block w-2 h-2 rounded-full ${STATUS_COLORS[status]}`} />
+          {label}
+        </span>
+      ))}
+    </button>
+  );
+};
+
+export default ServiceHealthIndicator;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { formatAmount, formatUsdc, toAmount, SHARE_DECIMALS } from '@/lib/amount';
+import type { VaultTxSimulation } from '@/utils/vaultTransactions';
+import { addNetworkFees, canAffordNetworkFee, formatGwei, formatNativeFee, type NetworkFeeEstimate } from '@/utils/networkFee';
+
+interface SimulationSummaryProps {
+  simulation: VaultTxSimulation | null;
+  nativeBalance?: bigint; // Wallet's native balance, warns when it can't cover the fee
+  className?: string;
+}
+
+const formatShares = (shares: bigint) =>
+  formatAmount(toAmount(shares, SHARE_DECIMALS), { maxFractionDigits: 4, minFractionDigits: 4 });
+
+// What the dry-run says the transaction will do, per vault function
+const describeResult = ({ functionName, result }: VaultTxSimulation): string | null => {
+  if (typeof result !== 'bigint') return null;
+  switch (functionName) {
+    case 'deposit':
+    case 'depositWithExtraInfoViaSignature':
+      return `You receive ≈ ${formatShares(result)} shares`;
+    case 'withdraw':
+      return `Burns ≈ ${formatShares(result)} shares`;
+    case 'redeem':
+      return `You receive ≈ ${formatUsdc(result)} USDC`;
+    default:
+      return null;
+  }
+};
+
+// Base fee, L1 data fee and native-token cost lines of the confirmation step, the approval included
+const FeeBreakdown: React.FC<{ fee: NetworkFeeEstimate; approvalFee?: NetworkFeeEstimate; nativeBalance?: bigint }> = ({
+  fee,
+  approvalFee,
+  nativeBalance,
+}) => (
+  <>
+    {fee.baseFeePerGas !== null && <div>Base fee: {formatGwei(fee.baseFeePerGas)}</div>}
+    {fee.l1Fee !== null && (
+      <div>
+        L1 data fee: {formatNativeFee(fee.l1Fee, fee)}{fee.l1FeeIncluded ? ' (included in gas)' : ''}
+      </div>
+    )}
+    <div>
+      Network fee: ≈ {formatNativeFee(fee.expectedCost, fee)}
+      <span className="text-gray-500"> (max {formatNativeFee(fee.maxCost, fee)})</span>
+    </div>
+    {approvalFee && <div>Includes approval: ≈ {formatNativeFee(approvalFee.expectedCost, approvalFee)}</div>}
+    {nativeBalance !== undefined && !canAffordNetworkFee(fee, nativeBalance) && (
+      <div className="text-yellow-400">
+        ⚠️ Not enough {fee.nativeSymbol} for gas: you have {formatNativeFee(nativeBalance, fee)}, the wallet may
+        require up to {formatNativeFee(fee.maxCost, fee)}.
+      </div>
+    )}
+  </>
+);
+
+// Simulated outcome, gas and fee estimate of a vault transaction, shown before the wallet opens
+export const SimulationSummary: React.FC<SimulationSummaryProps> = ({ simulation, nativeBalance, className = '' }) => {
+  if (!simulation) return null;
+  const outcome = describeResult(simulation);
+  const { fee, approvalFee } = simulation;
+
+  return (
+    <div className={`space-y-1 text-xs text-gray-400 ${className}`}>
+      {outcome && <div>{outcome}</div>}
+      {simulation.simulated && (
+        <div>
+          Estimated gas: {simulation.gas !== null ? `${simulation.gas.toLocaleString()} units` : 'unavailable'}
+        </div>
+      )}
+      {fee && (
+        <FeeBreakdown
+          fee={approvalFee ? addNetworkFees(approvalFee, fee) : fee}
+          approvalFee={approvalFee ?? undefined}
+          nativeBalance={nativeBalance}
+        />
+      )}
+      {simulation.simulated
+        ? <div className="text-green-400">✓ Simulation passed</div>
+        : <div>Approval needed first, the deposit is simulated once it confirms</div>}
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
+import { useAccount, useBalance, useReadContract } from 'wagmi';
 import { parseUnits, formatUnits } from 'viem';
-import { AAVE_VAULT_ABI, ERC20_ABI, getContractAddress, getUSDCAddress } from '@/utils/contracts';
-import { validateAmount, validateChainId, DepositSchema, WithdrawSchema, ApprovalSchema } from '@/lib/validation';
+import { AAVE_VAULT_ABI, getContractAddress, getUSDCAddress } from '@/utils/contracts';
+import { validateAmount, validateVaultLimit, validateChainId, DepositSchema, WithdrawSchema, ApprovalSchema } from '@/lib/validation';
 import { useWelcome } from '@/contexts/WelcomeContext';
-import { getDepositSignature } from '@/utils/oracleClient';
+import { buildApprovalRequest, buildDepositRequest, buildWithdrawRequest } from '@/utils/vaultTransactions';
+import { useVaultTransaction } from '@/hooks/useVaultTransaction';
+import { useVaultState } from '@/hooks/useVaultState';
+import { SimulationSummary } from '@/components/SimulationSummary';
+import { formatAmount, formatUsdc, sharesToAssets, toAmount, SHARE_DECIMALS } from '@/lib/amount';
+import { getVaultChains, isVaultChain } from '@/constants/chains';
 
 // Mobile Number Pad Component
 const NumberPad = ({ onNumberClick, onBackspace, onClear }: {
@@ -66,13 +71,17 @@ const MobileModal = ({ isOpen, children }: {
 export const VaultActions: React.FC = () => {
   const { address, isConnected, chainId } = useAccount();
   const { hasDeposits } = useWelcome();
-  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const tx = useVaultTransaction();
+  // Native balance for the gas check in the confirmation step
+  const { data: nativeBalance } = useBalance({ address, chainId: tx.chainId, query: { enabled: tx.phase === 'reviewing' } });
   
   const [depositAmount, setDepositAmount] = useState('');
   const [withdrawAmount, setWithdrawAmount] = useState('');
-  const [isApproving, setIsApproving] = useState(false);
-  const [isDepositing, setIsDepositing] = useState(false);
-  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [withdrawUnit, setWithdrawUnit] = useState<'assets' | 'shares'>('assets');
+  const [isWithdrawAll, setIsWithdrawAll] = useState(false);
+  const isApproving = tx.isBusy && tx.kind === 'approve';
+  const isDepositing = tx.isBusy && tx.kind === 'deposit';
+  const isWithdrawing = tx.isBusy && tx.kind === 'withdraw';
   
   // Validation state
   const [depositError, setDepositError] = useState<string | null>(null);
@@ -83,10 +92,11 @@ export const VaultActions: React.FC = () => {
   const [showMobileDeposit, setShowMobileDeposit] = useState(false);
   const [showMobileWithdraw, setShowMobileWithdraw] = useState(false);
   const [mobileAmount, setMobileAmount] = useState('');
-  const [mobileStep, setMobileStep] = useState<'input' | 'confirm' | 'progress' | 'success' | 'error'>('input');
+  const [mobileWithdrawSummary, setMobileWithdrawSummary] = useState<{ shares: string; assets: string } | null>(null);
+  const [mobileStep, setMobileStep] = useState<'input' | 'error'>('input');
 
   // Check if current chain is supported and validate
-  const isChainSupported = chainId === 1 || chainId === 84532 || chainId === 421614 || chainId === 11155420 || chainId === 111155111;
+  const isChainSupported = !!chainId && isVaultChain(chainId);
   
   // Validate chain on change
   useMemo(() => {
@@ -103,8 +113,7 @@ export const VaultActions: React.FC = () => {
       return;
     }
     
-    const maxBalance = usdcBalance ? formatUnits(usdcBalance as bigint, 6) : '0';
-    const error = validateAmount(amount, maxBalance);
+    const error = validateAmount(amount, (usdcBalance as bigint | undefined) ?? BigInt(0)) ?? validateVaultLimit(amount, maxDepositAssets, 'deposit');
     setDepositError(error);
     
     if (!address || !contractAddress || !usdcAddress) {
@@ -132,22 +141,20 @@ export const VaultActions: React.FC = () => {
       return;
     }
     
-    // Calculate USDC value of user's shares (shares are typically 1:1 with USDC for this vault)
-    // ERC4626 shares use same decimals as underlying asset (6 decimals for USDC)
-    const userShares = shareBalance ? Number(formatUnits(shareBalance as bigint, 6)) : 0;
-    
-    // For simplicity, assume 1:1 share to USDC ratio (typical for new vaults)
-    // In production, you'd call vault.convertToAssets(shareBalance) 
-    const maxWithdrawableUSDC = userShares.toString();
-    
-    console.log('💳 Withdrawal Validation:', {
-      requestedAmount: amount,
-      userShares: userShares,
-      maxWithdrawableUSDC: maxWithdrawableUSDC,
-      rawShareBalance: shareBalance?.toString()
-    });
+    // maxWithdraw/maxRedeem already account for the owner's balance and any vault-side limits. Until
+    // they load (or on vaults that revert on them) fall back to what the share balance is worth
+    const balanceLimit = withdrawUnit === 'shares'
+      ? shareBalance
+      : shareBalance !== undefined && totalAssets !== undefined && totalSupply !== undefined
+        ? sharesToAssets(shareBalance, totalAssets, totalSupply)
+        : undefined;
+    const limit = (withdrawUnit === 'shares' ? maxRedeemShares : maxWithdrawAssets) ?? balanceLimit;
+    if (limit === undefined) {
+      setWithdrawError('Balance not loaded yet');
+      return;
+    }
     
-    const error = validateAmount(amount, maxWithdrawableUSDC);
+    const error = validateAmount(amount) ?? validateVaultLimit(amount, limit, withdrawUnit === 'shares' ? 'redemption' : 'withdrawal');
     setWithdrawError(error);
     
     if (!address || !contractAddress) {
@@ -183,140 +190,96 @@ export const VaultActions: React.FC = () => {
     }
   })() : null;
 
-  // Wait for transaction confirmation
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    query: {
-      enabled: !!hash,
-    },
-  });
+  // Vault and user state for the connected chain - balances, allowance, totals and ERC-4626
+  // limits - from one multicall so they always come from the same block
+  const {
+    usdcBalance,
+    shares: shareBalance,
+    totalAssets,
+    totalSupply,
+    allowance,
+    maxRedeem: maxRedeemShares,
+    maxDeposit: maxDepositAssets,
+    maxWithdraw: maxWithdrawAssets,
+    refetch: refetchVaultState,
+  } = useVaultState();
 
-  // Read user's USDC balance
-  const { data: usdcBalance, refetch: refetchUsdcBalance } = useReadContract({
-    address: usdcAddress as `0x${string}` | undefined,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: {
-      enabled: !!address && !!chainId && isChainSupported && !!usdcAddress,
-    },
-  });
+  const maxRedeemableShares = maxRedeemShares ?? (shareBalance as bigint | undefined) ?? BigInt(0);
 
-  // Debug USDC balance and contract info
-  React.useEffect(() => {
-    if (address && usdcAddress && chainId) {
-      console.log('💰 USDC Balance Debug:', {
-        userAddress: address,
-        usdcContractAddress: usdcAddress,
-        chainId: chainId,
-        rawBalance: usdcBalance?.toString(),
-        formattedBalance: usdcBalance ? formatUnits(usdcBalance as bigint, 6) : 'null'
-      });
+  // Shares to redeem: the whole redeemable balance for "withdraw all" (desktop Max and the mobile flow),
+  // the typed amount in shares mode. Undefined means an asset-denominated withdraw.
+  const redeemShares = (() => {
+    if (isWithdrawAll || showMobileWithdraw) return maxRedeemableShares;
+    if (withdrawUnit === 'shares' && withdrawAmount) {
+      try {
+        return parseUnits(withdrawAmount, 6);
+      } catch {
+        return undefined;
+      }
     }
-  }, [address, usdcAddress, chainId, usdcBalance]);
+    return undefined;
+  })();
 
-  // Read user's vault share balance
-  const { data: shareBalance, refetch: refetchShareBalance } = useReadContract({
+  // Expected USDC for the shares being redeemed
+  const { data: previewRedeemAssets } = useReadContract({
     address: contractAddress as `0x${string}` | undefined,
     abi: AAVE_VAULT_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
+    functionName: 'previewRedeem',
+    args: redeemShares !== undefined ? [redeemShares] : undefined,
     query: {
-      enabled: !!address && !!contractAddress,
+      enabled: !!contractAddress && redeemShares !== undefined && redeemShares > BigInt(0),
     },
   });
 
-  // Debug share balance and vault balances
-  React.useEffect(() => {
-    if (address && shareBalance !== undefined) {
-      const formattedShares = shareBalance ? formatUnits(shareBalance as bigint, 6) : '0';
-      console.log('📊 Share Balance Debug:', {
-        userAddress: address,
-        rawShareBalance: shareBalance?.toString(),
-        formattedShares: formattedShares,
-        shareDecimals: '6 (same as USDC)',
-        hasShares: shareBalance ? shareBalance > BigInt(0) : false
-      });
+  const previewRedeemFormatted = previewRedeemAssets !== undefined
+    ? formatUsdc(previewRedeemAssets, { minFractionDigits: 0 })
+    : '...';
+
+
+
+  // Shares minted for the typed deposit / burned for the typed asset withdrawal
+  const depositAssets = (() => {
+    try {
+      return depositAmount ? parseUnits(depositAmount, 6) : undefined;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  const withdrawAssets = (() => {
+    if (withdrawUnit !== 'assets' || isWithdrawAll || !withdrawAmount) return undefined;
+    try {
+      return parseUnits(withdrawAmount, 6);
+    } catch {
+      return undefined;
     }
-  }, [address, shareBalance]);
+  })();
 
-  // Read total assets in vault
-  const { data: totalAssets } = useReadContract({
+  const { data: previewDepositShares } = useReadContract({
     address: contractAddress as `0x${string}` | undefined,
     abi: AAVE_VAULT_ABI,
-    functionName: 'totalAssets',
+    functionName: 'previewDeposit',
+    args: depositAssets !== undefined ? [depositAssets] : undefined,
     query: {
-      enabled: !!contractAddress,
+      enabled: !!contractAddress && depositAssets !== undefined && depositAssets > BigInt(0),
     },
   });
 
-  // Read current allowance
-  const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: usdcAddress as `0x${string}` | undefined,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: address && contractAddress ? [address, contractAddress as `0x${string}`] : undefined,
+  const { data: previewWithdrawShares } = useReadContract({
+    address: contractAddress as `0x${string}` | undefined,
+    abi: AAVE_VAULT_ABI,
+    functionName: 'previewWithdraw',
+    args: withdrawAssets !== undefined ? [withdrawAssets] : undefined,
     query: {
-      enabled: !!address && !!contractAddress && !!usdcAddress,
+      enabled: !!contractAddress && withdrawAssets !== undefined && withdrawAssets > BigInt(0),
     },
   });
 
-  // Refetch data when transactions are confirmed
-  React.useEffect(() => {
-    if (isConfirmed) {
-      console.log('✅ Transaction confirmed, refetching balances...');
-      if (isApproving) {
-        console.log('🔄 Refetching allowance after approval');
-        refetchAllowance();
-        setIsApproving(false);
-      }
-      if (isDepositing) {
-        console.log('🔄 Refetching USDC and share balances after deposit');
-        refetchUsdcBalance();
-        refetchShareBalance();
-        setIsDepositing(false);
-      }
-      if (isWithdrawing) {
-        console.log('🔄 Refetching USDC and share balances after withdrawal');
-        refetchUsdcBalance();
-        refetchShareBalance();
-        setIsWithdrawing(false);
-      }
-    }
-  }, [isConfirmed, isApproving, isDepositing, isWithdrawing, refetchAllowance, refetchUsdcBalance, refetchShareBalance]);
-
-  // Debug contract addresses and transaction state
-  React.useEffect(() => {
-    if (address && chainId) {
-      console.log('🏗️ Contract Address Debug:', {
-        chainId: chainId,
-        vaultContract: contractAddress,
-        usdcContract: usdcAddress,
-        userAddress: address,
-        isChainSupported: isChainSupported
-      });
-    }
-  }, [address, chainId, contractAddress, usdcAddress, isChainSupported]);
-
-  // Debug transaction states
-  React.useEffect(() => {
-    console.log('🔄 Transaction States:', {
-      isApproving,
-      isDepositing, 
-      isWithdrawing,
-      isConfirmed,
-      isPending
-    });
-  }, [isApproving, isDepositing, isWithdrawing, isConfirmed, isPending]);
-
-  const handleApprove = async () => {
-    if (!address || !contractAddress || !depositAmount || !usdcAddress) return;
+  const handleApprove = () => {
+    if (!address || !contractAddress || !depositAmount || !usdcAddress || !chainId) return;
     if (depositError) return; // Don't proceed if there are validation errors
 
     try {
-      setIsApproving(true);
-      console.log('✅ Starting approval for maximum amount...');
-      
       // Validate approval data
       ApprovalSchema.parse({
         amount: depositAmount,
@@ -324,117 +287,74 @@ export const VaultActions: React.FC = () => {
         tokenAddress: usdcAddress,
         userAddress: address
       });
-      
-      // Approve maximum amount so user doesn't need to approve again
-      const maxApproval = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff'); // 2^256 - 1
-      
-      await writeContract({
-        address: usdcAddress as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [contractAddress as `0x${string}`, maxApproval],
-      });
-      
-      console.log('📝 Approval transaction submitted, waiting for confirmation...');
     } catch (err) {
       console.error('Approve failed:', err);
-      setIsApproving(false); // Only reset on error
+      return;
     }
+
+    // Approve according to the wallet's approval policy (exact amount, fixed cap or unlimited)
+    tx.start({
+      kind: 'approve',
+      request: async () => buildApprovalRequest(chainId, address, parseUnits(depositAmount, 6)),
+      onConfirmed: () => refetchVaultState(),
+    });
   };
 
-  const handleDeposit = async () => {
+  const handleDeposit = () => {
     if (!address || !contractAddress || !depositAmount || !chainId) return;
 
-    try {
-      setIsDepositing(true);
-      console.log('💸 Starting deposit:', depositAmount, 'USDC');
-      
-      const amountInWei = parseUnits(depositAmount, 6);
-      
-      // Try to get signature from oracle first
-      console.log('🔐 Requesting signature from oracle...');
-      const snapshot = await getDepositSignature(
-        amountInWei.toString(),
-        address,
-        chainId
-      );
-      console.log('✅ Signature received from oracle:', snapshot);
-      
-      // Check if cross-chain assets exist (balance > 0)
-      // The contract requires crossChainInvestedAssets > 0 for depositWithSignature
-      if (snapshot.balance === '0' || BigInt(snapshot.balance) === BigInt(0)) {
-        console.log('⚠️ No cross-chain assets yet, using regular deposit method');
-        console.log('   (Oracle integration tested ✅ - signature received successfully)');
-        
-        // Use regular deposit when no cross-chain assets exist
-        await writeContract({
-          address: contractAddress as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'deposit',
-          args: [amountInWei, address as `0x${string}`],
-        });
-        
-        console.log('📝 Regular deposit transaction submitted');
-      } else {
-        console.log('🔐 Using deposit with signature (cross-chain assets: ' + snapshot.balance + ')');
-        
-        // Use depositWithSignature when cross-chain assets exist
-        await writeContract({
-          address: contractAddress as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'depositWithExtraInfoViaSignature',
-          args: [
-            amountInWei,
-            address as `0x${string}`,
-            {
-              balance: BigInt(snapshot.balance),
-              nonce: BigInt(snapshot.nonce),
-              deadline: BigInt(snapshot.deadline),
-              assets: BigInt(snapshot.assets),
-              receiver: snapshot.receiver as `0x${string}`,
-            },
-            snapshot.signature as `0x${string}`,
-          ],
-        });
-        
-        console.log('📝 Deposit with signature transaction submitted');
-      }
-      
-    } catch (err) {
-      console.error('Deposit failed:', err);
-      
-      // Enhanced error handling for oracle-specific errors
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      if (errorMessage.includes('Oracle') || 
-          errorMessage.includes('oracle') ||
-          errorMessage.includes('signature')) {
-        console.error('Oracle service error:', err);
-      }
-      
-      setIsDepositing(false); // Only reset on error
+    // Re-check the vault limit at submit time, it may have changed since the amount was typed
+    const limitError = validateVaultLimit(depositAmount, maxDepositAssets, 'deposit');
+    if (limitError) {
+      setDepositError(limitError);
+      return;
     }
+
+    const amountInWei = parseUnits(depositAmount, 6);
+    // Approve according to the wallet's approval policy when the allowance is short
+    const approval = async () => ((allowance as bigint | undefined) ?? BigInt(0)) >= amountInWei
+      ? null
+      : buildApprovalRequest(chainId, address, amountInWei);
+
+    tx.start({
+      kind: 'deposit',
+      review: true,
+      approval,
+      approvalPreview: approval,
+      request: () => buildDepositRequest({ chainId, receiver: address, assets: amountInWei }),
+      onConfirmed: () => refetchVaultState(),
+      onFailed: error => {
+        if (error.kind === 'oracle') setDepositError(error.message);
+      },
+    });
   };
 
-  const handleWithdraw = async () => {
-    if (!address || !contractAddress || !withdrawAmount) return;
+  const handleWithdraw = () => {
+    if (!address || !contractAddress || !chainId || (!withdrawAmount && !isWithdrawAll)) return;
     if (withdrawError) return; // Don't proceed if there are validation errors
 
-    try {
-      setIsWithdrawing(true);
-      console.log('💳 Starting withdrawal:', withdrawAmount, 'USDC');
-      
-      await writeContract({
-        address: contractAddress as `0x${string}`,
-        abi: AAVE_VAULT_ABI,
-        functionName: 'withdraw',
-        args: [parseUnits(withdrawAmount, 6), address, address], // USDC has 6 decimals
-      });
-      
-      console.log('📝 Withdrawal transaction submitted, waiting for confirmation...');
-    } catch (err) {
-      console.error('Withdraw failed:', err);
-      setIsWithdrawing(false); // Only reset on error
+    if (!isWithdrawAll) {
+      const limitError = withdrawUnit === 'shares'
+        ? validateVaultLimit(withdrawAmount, maxRedeemShares, 'redemption')
+        : validateVaultLimit(withdrawAmount, maxWithdrawAssets, 'withdrawal');
+      if (limitError) {
+        setWithdrawError(limitError);
+        return;
+      }
     }
+
+    // Redeem exact shares for "withdraw all" and share-denominated exits so no dust is left behind
+    const amount = redeemShares !== undefined ? { shares: redeemShares } : { assets: parseUnits(withdrawAmount, 6) };
+
+    tx.start({
+      kind: 'withdraw',
+      review: true,
+      request: async () => buildWithdrawRequest(chainId, address, amount),
+      onConfirmed: () => {
+        refetchVaultState();
+        setIsWithdrawAll(false);
+      },
+    });
   };
 
   const handleAddTokenToWallet = async () => {
@@ -478,114 +398,76 @@ export const VaultActions: React.FC = () => {
   };
 
   const handleMobileDeposit = () => {
+    tx.cancel();
     setShowMobileDeposit(true);
     setMobileStep('input');
     setMobileAmount('');
   };
 
   const handleMobileWithdraw = () => {
+    tx.cancel();
     setShowMobileWithdraw(true);
     setMobileStep('input');
     setMobileAmount('');
   };
 
-  const handleMobileConfirm = async () => {
-    if (!address || !contractAddress || !mobileAmount) return;
-    
-    setMobileStep('progress');
-    
-    try {
-      if (showMobileDeposit) {
-        // Mobile deposit flow
-        setIsDepositing(true);
-        console.log('💸 Starting mobile deposit:', mobileAmount, 'USDC');
-        
-        await writeContract({
-          address: contractAddress as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'deposit',
-          args: [parseUnits(mobileAmount, 6), address], // USDC has 6 decimals
-        });
-        
-        console.log('📝 Mobile deposit transaction submitted');
-      } else if (showMobileWithdraw) {
-        // Mobile withdraw flow  
-        setIsWithdrawing(true);
-        console.log('💳 Starting mobile withdrawal:', mobileAmount, 'USDC');
-        
-        await writeContract({
-          address: contractAddress as `0x${string}`,
-          abi: AAVE_VAULT_ABI,
-          functionName: 'withdraw',
-          args: [parseUnits(mobileAmount, 6), address, address], // USDC has 6 decimals
-        });
-        
-        console.log('📝 Mobile withdrawal transaction submitted');
-      }
-    } catch (err) {
-      console.error('Mobile transaction failed:', err);
+  const handleMobileConfirm = () => {
+    if (!address || !contractAddress || !chainId) return;
+    if (showMobileDeposit && !mobileAmount) return;
+    if (showMobileWithdraw && maxRedeemableShares === BigInt(0)) return;
+
+    // Don't send a deposit the vault would revert
+    const limitError = showMobileDeposit ? validateVaultLimit(mobileAmount, maxDepositAssets, 'deposit') : null;
+    if (limitError) {
+      console.error('Mobile deposit blocked:', limitError);
       setMobileStep('error');
-      setIsDepositing(false);
-      setIsWithdrawing(false);
+      return;
     }
-  };
 
-  const handleMobileApprove = async () => {
-    if (!address || !contractAddress || !mobileAmount || !usdcAddress) return;
-    
-    setMobileStep('progress');
-    setIsApproving(true);
-    
-    try {
-      console.log('✅ Starting mobile approval...');
-      
-      // Approve maximum amount so user doesn't need to approve again
-      const maxApproval = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
-      
-      await writeContract({
-        address: usdcAddress as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [contractAddress as `0x${string}`, maxApproval],
+    if (showMobileDeposit) {
+      const assets = parseUnits(mobileAmount, 6);
+      // Approve according to the wallet's approval policy when the allowance is short
+      const approval = async () => ((allowance as bigint | undefined) ?? BigInt(0)) >= assets
+        ? null
+        : buildApprovalRequest(chainId, address, assets);
+      tx.start({
+        kind: 'deposit',
+        review: true,
+        approval,
+        approvalPreview: approval,
+        request: () => buildDepositRequest({ chainId, receiver: address, assets }),
+        onApproved: () => refetchVaultState(),
+        onConfirmed: () => refetchVaultState(),
+      });
+    } else if (showMobileWithdraw) {
+      // Mobile withdraw flow - one click withdraws everything by redeeming the exact share balance.
+      // Keep what was redeemed for the progress/success screens; balances refetch to zero afterwards
+      setMobileWithdrawSummary({ shares: formatUnits(maxRedeemableShares, 6), assets: previewRedeemFormatted });
+      tx.start({
+        kind: 'withdraw',
+        review: true,
+        request: async () => buildWithdrawRequest(chainId, address, { shares: maxRedeemableShares }),
+        onConfirmed: () => refetchVaultState(),
       });
-      
-      console.log('📝 Mobile approval transaction submitted');
-    } catch (err) {
-      console.error('Mobile approval failed:', err);
-      setMobileStep('error');
-      setIsApproving(false);
     }
   };
 
   const handleMobileClose = () => {
+    tx.cancel();
     setShowMobileDeposit(false);
     setShowMobileWithdraw(false);
     setMobileStep('input');
     setMobileAmount('');
+    setMobileWithdrawSummary(null);
   };
 
-  // Monitor transaction confirmation for mobile flows
-  React.useEffect(() => {
-    if (hash && (showMobileDeposit || showMobileWithdraw)) {
-      if (isConfirmed) {
-        if (isApproving) {
-          // Approval completed, move to deposit confirmation
-          setMobileStep('confirm');
-          setIsApproving(false);
-        } else {
-          // Deposit/withdraw completed
-          setMobileStep('success');
-          setIsDepositing(false);
-          setIsWithdrawing(false);
-          // Refetch balances
-          refetchUsdcBalance();
-          refetchShareBalance();
-        }
-      } else if (isConfirming) {
-        setMobileStep('progress');
-      }
-    }
-  }, [hash, isConfirmed, isConfirming, isApproving, showMobileDeposit, showMobileWithdraw, refetchUsdcBalance, refetchShareBalance]);
+  // Mobile screen: the input step until a transaction starts, then its phase.
+  // The confirm screen shows the simulation before the wallet opens
+  const mobileView = tx.phase === 'idle' ? mobileStep
+    : tx.phase === 'reviewing' ? 'confirm'
+    : tx.phase === 'confirmed' ? 'success'
+    : tx.phase === 'failed' ? 'error'
+    : 'progress';
 
   if (!isConnected) {
     return (
@@ -611,10 +493,9 @@ export const VaultActions: React.FC = () => {
             Please switch to one of the supported networks:
           </p>
           <div className="space-y-2 text-sm">
-            <div className="text-blue-400">• Base Sepolia (Chain ID: 84532)</div>
-            <div className="text-purple-400">• Arbitrum Sepolia (Chain ID: 421614)</div>
-            <div className="text-red-400">• Optimism Sepolia (Chain ID: 11155420)</div>
-            <div className="text-blue-300">• Ethereum Sepolia (Chain ID: 111155111)</div>
+            {getVaultChains().map(chain => (
+              <div key={chain.id} style={{ color: chain.color }}>• {chain.name} (Chain ID: {chain.id})</div>
+            ))}
           </div>
         </div>
       </div>
@@ -706,27 +587,32 @@ export const VaultActions: React.FC = () => {
             {depositError && (
               <div className="text-red-400 text-xs mt-1">{depositError}</div>
             )}
+            {!depositError && previewDepositShares !== undefined && depositAssets !== undefined && depositAssets > BigInt(0) && (
+              <div className="text-gray-400 text-xs">
+                You receive ≈ {formatUnits(previewDepositShares, 6)} shares
+              </div>
+            )}
             
             {/* Approval and Deposit Buttons */}
             <div className="flex space-x-2 w-full">
               {needsApproval && depositAmount && (
                 <button
                   onClick={handleApprove}
-                  disabled={!depositAmount || depositError !== null || isApproving || isPending || isConfirming}
+                  disabled={!depositAmount || depositError !== null || tx.isBusy}
                   className="flex-1 min-w-0 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2.5 px-2 rounded-lg transition-colors text-sm"
                 >
                   <span className="truncate block">
-                    {isApproving || (isPending && !isDepositing && !isWithdrawing) || isConfirming ? 'Approving...' : 'Approve USDC'}
+                    {isApproving ? 'Approving...' : 'Approve USDC'}
                   </span>
                 </button>
               )}
               <button
                 onClick={handleDeposit}
-                disabled={!depositAmount || depositError !== null || needsApproval || isDepositing || isPending || isConfirming}
+                disabled={!depositAmount || depositError !== null || needsApproval || tx.isBusy}
                 className="flex-1 min-w-0 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2.5 px-2 rounded-lg transition-colors text-sm"
               >
                 <span className="truncate block">
-                  {isDepositing || (isPending && !isApproving && !isWithdrawing) || isConfirming ? 'Depositing...' : 'Deposit'}
+                  {isDepositing ? 'Depositing...' : 'Deposit'}
                 </span>
               </button>
             </div>
@@ -742,16 +628,35 @@ export const VaultActions: React.FC = () => {
         {/* Withdraw Section - Only show if user has deposits */}
         {hasDeposits && (
           <div className="p-4 bg-gray-800 rounded-lg">
-            <label className="block text-sm font-medium text-gray-300 mb-3">
-              Withdraw Amount (USDC)
-            </label>
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-sm font-medium text-gray-300">
+                Withdraw Amount ({withdrawUnit === 'assets' ? 'USDC' : 'Shares'})
+              </label>
+              <div className="flex gap-1">
+                {(['assets', 'shares'] as const).map((unit) => (
+                  <button
+                    key={unit}
+                    onClick={() => {
+                      setWithdrawUnit(unit);
+                      setWithdrawAmount('');
+                      setIsWithdrawAll(false);
+                      setWithdrawError(null);
+                    }}
+                    className={`text-xs px-2 py-1 rounded ${withdrawUnit === unit ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {unit === 'assets' ? 'USDC' : 'Shares'}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="space-y-3">
               <input
                 type="number"
-                value={withdrawAmount}
+                value={isWithdrawAll && withdrawUnit === 'assets' && previewRedeemAssets !== undefined ? formatUnits(previewRedeemAssets, 6) : withdrawAmount}
                 onChange={(e) => {
                   const value = e.target.value;
                   setWithdrawAmount(value);
+                  setIsWithdrawAll(false);
                   validateWithdrawAmount(value);
                 }}
                 placeholder="0.0"
@@ -764,13 +669,34 @@ export const VaultActions: React.FC = () => {
               {withdrawError && (
                 <div className="text-red-400 text-xs mt-1">{withdrawError}</div>
               )}
+              {!withdrawError && previewWithdrawShares !== undefined && withdrawAssets !== undefined && withdrawAssets > BigInt(0) && (
+                <div className="text-gray-400 text-xs">
+                  Burns ≈ {formatUnits(previewWithdrawShares, 6)} shares
+                </div>
+              )}
+              {redeemShares !== undefined && redeemShares > BigInt(0) && (
+                <div className="text-gray-400 text-xs">
+                  {isWithdrawAll ? 'Redeeming all' : 'Redeeming'} {formatUnits(redeemShares, 6)} shares · you receive ≈ {previewRedeemFormatted} USDC
+                </div>
+              )}
+              <button
+                onClick={() => {
+                  setIsWithdrawAll(true);
+                  setWithdrawAmount(formatUnits(maxRedeemableShares, 6));
+                  setWithdrawError(null);
+                }}
+                disabled={maxRedeemableShares === BigInt(0) || tx.isBusy}
+                className="w-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors text-xs"
+              >
+                Withdraw all
+              </button>
               <button
                 onClick={handleWithdraw}
-                disabled={!withdrawAmount || withdrawError !== null || isWithdrawing || isPending || isConfirming}
+                disabled={(!withdrawAmount && !isWithdrawAll) || withdrawError !== null || tx.isBusy}
                 className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2.5 px-4 rounded-lg transition-colors text-sm"
               >
                 <span className="truncate block">
-                  {isWithdrawing || (isPending && !isDepositing && !isApproving) || isConfirming ? 'Withdrawing...' : 'Withdraw'}
+                  {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
                 </span>
               </button>
             </div>
@@ -778,29 +704,54 @@ export const VaultActions: React.FC = () => {
         )}
       </div>
 
+      {/* Review - simulated and priced, waiting for the user before the wallet opens */}
+      {tx.phase === 'reviewing' && (tx.kind === 'deposit' || tx.kind === 'withdraw') && (
+        <div className="mt-6 p-3 bg-gray-800 rounded-lg">
+          <div className="text-sm text-white">
+            Confirm {tx.kind === 'deposit' ? `deposit of ${depositAmount} USDC` : 'withdrawal'}
+          </div>
+          <SimulationSummary simulation={tx.simulation} nativeBalance={nativeBalance?.value} className="mt-2" />
+          <div className="flex space-x-2 mt-3">
+            <button
+              onClick={tx.cancel}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={tx.confirm}
+              className="flex-1 bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              Confirm in wallet
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Transaction Status */}
-      {hash && (
+      {tx.hash && (
         <div className="mt-6 p-3 bg-blue-900 rounded-lg">
           <div className="text-sm text-blue-200">
-            Transaction: {hash.slice(0, 10)}...{hash.slice(-8)}
+            Transaction: {tx.hash.slice(0, 10)}...{tx.hash.slice(-8)}
           </div>
-          {isConfirming && <div className="text-xs text-blue-300 mt-1">Waiting for confirmation...</div>}
-          {isConfirmed && (
+          {tx.phase === 'submitted' && <div className="text-xs text-blue-300 mt-1">Waiting for confirmation...</div>}
+          {tx.phase === 'submitted' && <SimulationSummary simulation={tx.simulation} className="mt-2" />}
+          {tx.phase === 'confirmed' && (
             <div className="text-xs text-green-300 mt-1">
               ✅ Transaction confirmed! 
-              {isDepositing && " You should see your vault shares (LP tokens) updated above."}
-              {isWithdrawing && " Your USDC balance should be updated above."}
-              {isApproving && " You can now proceed with the deposit."}
+              {tx.kind === 'deposit' && " You should see your vault shares (LP tokens) updated above."}
+              {tx.kind === 'withdraw' && " Your USDC balance should be updated above."}
+              {tx.kind === 'approve' && " You can now proceed with the deposit."}
             </div>
           )}
         </div>
       )}
 
         {/* Error Display */}
-        {error && (
+        {tx.error && (
           <div className="mt-4 p-3 bg-red-900 rounded-lg">
             <div className="text-sm text-red-200">
-              Error: {error.message}
+              Error: {tx.error.message}
             </div>
           </div>
         )}
@@ -821,7 +772,7 @@ export const VaultActions: React.FC = () => {
             </div>
             <div>
               <div className="text-2xl font-light text-white">
-                {shareBalance ? Number(formatUnits(shareBalance as bigint, 6)).toLocaleString() : '0'}
+                {shareBalance ? formatAmount(toAmount(shareBalance as bigint, SHARE_DECIMALS)) : '0'}
               </div>
               <div className="text-gray-400 text-sm">
                 {shareBalance ? formatUnits(shareBalance as bigint, 6) : '0.0000'} LP Shares
@@ -854,7 +805,7 @@ export const VaultActions: React.FC = () => {
 
       {/* Mobile Deposit Modal */}
       <MobileModal isOpen={showMobileDeposit}>
-        {mobileStep === 'input' && (
+        {mobileView === 'input' && (
           <div className="p-4 pt-12">
             <div className="text-center mb-8">
               <h2 className="text-xl font-medium text-white mb-2">Deposit</h2>
@@ -882,18 +833,7 @@ export const VaultActions: React.FC = () => {
                 Cancel
               </button>
               <button
-                onClick={() => {
-                  // Check if approval is needed
-                  const mobileAmountBigInt = mobileAmount ? parseUnits(mobileAmount, 6) : BigInt(0);
-                  const currentAllowance = allowance as bigint || BigInt(0);
-                  const needsApproval = mobileAmountBigInt > currentAllowance;
-                  
-                  if (needsApproval) {
-                    handleMobileApprove();
-                  } else {
-                    setMobileStep('confirm');
-                  }
-                }}
+                onClick={handleMobileConfirm}
                 disabled={!mobileAmount}
                 className="w-full bg-white text-black py-3 rounded-lg font-medium disabled:bg-gray-600 disabled:text-gray-400"
               >
@@ -908,7 +848,7 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'confirm' && (
+        {mobileView === 'confirm' && (
           <div className="p-4 pt-12">
             <div className="text-center mb-8">
               <h2 className="text-xl font-medium text-white mb-2">Deposit</h2>
@@ -920,6 +860,7 @@ export const VaultActions: React.FC = () => {
                 {mobileAmount}
               </div>
               <div className="text-center text-gray-400 text-sm">USDC</div>
+              <SimulationSummary simulation={tx.simulation} nativeBalance={nativeBalance?.value} className="text-center mt-4" />
             </div>
             
             <div className="p-4 space-y-3">
@@ -930,7 +871,7 @@ export const VaultActions: React.FC = () => {
                 Cancel
               </button>
               <button
-                onClick={handleMobileConfirm}
+                onClick={tx.confirm}
                 className="w-full bg-white text-black py-3 rounded-lg font-medium"
               >
                 Confirm
@@ -939,7 +880,7 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'progress' && (
+        {mobileView === 'progress' && (
           <div className="p-4 pt-12 text-center">
             <h2 className="text-xl font-medium text-white mb-4">Deposit in progress...</h2>
             <div className="mb-8">
@@ -950,7 +891,7 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'success' && (
+        {mobileView === 'success' && (
           <div className="p-4 pt-12 text-center">
             <div className="text-green-400 text-sm mb-4">Your deposit was successful! ✅</div>
             <div className="mb-8">
@@ -966,9 +907,10 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'error' && (
+        {mobileView === 'error' && (
           <div className="p-4 pt-12 text-center">
             <div className="text-red-400 text-sm mb-4">Your deposit failed. Please try again!</div>
+            {tx.error && <div className="text-gray-400 text-xs mb-4 break-words">{tx.error.message}</div>}
             <div className="mb-8">
               <div className="text-4xl font-light text-white mb-2">{mobileAmount}</div>
               <div className="text-gray-400 text-sm">USDC</div>
@@ -985,7 +927,7 @@ export const VaultActions: React.FC = () => {
 
       {/* Mobile Withdraw Modal */}
       <MobileModal isOpen={showMobileWithdraw}>
-        {mobileStep === 'input' && (
+        {mobileView === 'input' && (
           <div className="p-4 pt-12">
             <div className="text-center mb-8">
               <h2 className="text-xl font-medium text-white mb-2">Withdraw</h2>
@@ -997,17 +939,13 @@ export const VaultActions: React.FC = () => {
             
             <div className="bg-gray-800 rounded-lg p-4 mb-6">
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Deposits</span>
-                <span className="text-white">{mobileAmount || '1230'} USDC</span>
-              </div>
-              <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Yield</span>
-                <span className="text-white">247 USDC</span>
+                <span className="text-gray-400">Vault shares</span>
+                <span className="text-white">{formatUnits(maxRedeemableShares, 6)}</span>
               </div>
               <div className="border-t border-gray-600 pt-2 mt-2">
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Total</span>
-                  <span className="text-white">1477 USDC</span>
+                  <span className="text-gray-400">You receive</span>
+                  <span className="text-white">≈ {previewRedeemFormatted} USDC</span>
                 </div>
               </div>
             </div>
@@ -1020,7 +958,40 @@ export const VaultActions: React.FC = () => {
                 Cancel
               </button>
               <button
-                onClick={() => setMobileStep('confirm')}
+                onClick={handleMobileConfirm}
+                disabled={maxRedeemableShares === BigInt(0)}
+                className="w-full bg-white text-black py-3 rounded-lg font-medium disabled:bg-gray-600 disabled:text-gray-400"
+              >
+                Confirm
+              </button>
+            </div>
+          </div>
+        )}
+
+        {mobileView === 'confirm' && (
+          <div className="p-4 pt-12">
+            <div className="text-center mb-8">
+              <h2 className="text-xl font-medium text-white mb-2">Withdraw</h2>
+              <div className="text-gray-400 text-sm">Confirm transaction</div>
+            </div>
+            
+            <div className="bg-gray-800 rounded-lg p-4 mb-6">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-gray-400">Vault shares</span>
+                <span className="text-white">{mobileWithdrawSummary?.shares ?? '0'}</span>
+              </div>
+              <SimulationSummary simulation={tx.simulation} nativeBalance={nativeBalance?.value} className="border-t border-gray-600 pt-2 mt-2" />
+            </div>
+            
+            <div className="p-4 space-y-3">
+              <button
+                onClick={handleMobileClose}
+                className="w-full bg-gray-700 text-white py-3 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={tx.confirm}
                 className="w-full bg-white text-black py-3 rounded-lg font-medium"
               >
                 Confirm
@@ -1029,22 +1000,18 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'progress' && (
+        {mobileView === 'progress' && (
           <div className="p-4 pt-12 text-center">
             <h2 className="text-xl font-medium text-white mb-4">Withdrawal in progress...</h2>
             <div className="bg-gray-800 rounded-lg p-4 mb-6">
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Deposits</span>
-                <span className="text-white">1230 USDC</span>
-              </div>
-              <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Yield</span>
-                <span className="text-white">247 USDC</span>
+                <span className="text-gray-400">Vault shares</span>
+                <span className="text-white">{mobileWithdrawSummary?.shares ?? '0'}</span>
               </div>
               <div className="border-t border-gray-600 pt-2 mt-2">
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Total</span>
-                  <span className="text-white">1477 USDC</span>
+                  <span className="text-gray-400">You receive</span>
+                  <span className="text-white">≈ {mobileWithdrawSummary?.assets ?? '0'} USDC</span>
                 </div>
               </div>
             </div>
@@ -1052,22 +1019,18 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'success' && (
+        {mobileView === 'success' && (
           <div className="p-4 pt-12 text-center">
             <div className="text-green-400 text-sm mb-4">Your withdrawal was successful! ✅</div>
             <div className="bg-gray-800 rounded-lg p-4 mb-6">
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Deposits</span>
-                <span className="text-white">1230 USDC</span>
-              </div>
-              <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">Yield</span>
-                <span className="text-white">247 USDC</span>
+                <span className="text-gray-400">Vault shares</span>
+                <span className="text-white">{mobileWithdrawSummary?.shares ?? '0'}</span>
               </div>
               <div className="border-t border-gray-600 pt-2 mt-2">
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Total</span>
-                  <span className="text-white">1477 USDC</span>
+                  <span className="text-gray-400">You receive</span>
+                  <span className="text-white">≈ {mobileWithdrawSummary?.assets ?? '0'} USDC</span>
                 </div>
               </div>
             </div>
@@ -1085,9 +1048,10 @@ export const VaultActions: React.FC = () => {
           </div>
         )}
 
-        {mobileStep === 'error' && (
+        {mobileView === 'error' && (
           <div className="p-4 pt-12 text-center">
             <div className="text-red-400 text-sm mb-4">Your withdrawal failed. Please try again!</div>
+            {tx.error && <div className="text-gray-400 text-xs mb-4 break-words">{tx.error.message}</div>}
             <button
               onClick={handleMobileClose}
               className="w-full bg-white text-black py-3 rounded-lg font-medium"
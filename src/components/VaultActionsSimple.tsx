@@ -1,9 +1,12 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useAccount, useReadContract, useWriteContract } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { formatUnits, parseUnits } from 'viem';
-import { AAVE_VAULT_ABI, ERC20_ABI, getContractAddress, getUSDCAddress } from '@/utils/contracts';
+import { buildApprovalRequest, buildDepositRequest, buildWithdrawRequest } from '@/utils/vaultTransactions';
+import { useVaultTransaction } from '@/hooks/useVaultTransaction';
+import { useVaultState } from '@/hooks/useVaultState';
+import { formatUsdc, parseAmount, sharesToAssets } from '@/lib/amount';
 
 export const VaultActionsSimple = () => {
   const { address, chainId } = useAccount();
@@ -11,132 +14,76 @@ export const VaultActionsSimple = () => {
   // State management
   const [mode, setMode] = useState<'view' | 'deposit' | 'withdraw'>('view');
   const [amount, setAmount] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const tx = useVaultTransaction();
   
-  // Read USDC balance
-  const { data: usdcBalance } = useReadContract({
-    address: chainId ? (getUSDCAddress(chainId) as `0x${string}`) : undefined,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!chainId }
-  });
-
-  // Read vault shares
-  const { data: vaultShares } = useReadContract({
-    address: chainId ? (getContractAddress(chainId) as `0x${string}`) : undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!chainId }
-  });
-
-  // Read vault total assets for calculating share value
-  const { data: totalAssets } = useReadContract({
-    address: chainId ? (getContractAddress(chainId) as `0x${string}`) : undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'totalAssets',
-    query: { enabled: !!chainId }
-  });
-
-  // Read total supply
-  const { data: totalSupply } = useReadContract({
-    address: chainId ? (getContractAddress(chainId) as `0x${string}`) : undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'totalSupply',
-    query: { enabled: !!chainId }
-  });
+  // Balances, totals and allowance for the connected chain in one multicall
+  const {
+    usdcBalance,
+    shares: vaultShares,
+    totalAssets,
+    totalSupply,
+    allowance,
+    refetch: refetchVaultState,
+  } = useVaultState();
 
   // Calculate values
-  const usdcBalanceFormatted = usdcBalance ? parseFloat(formatUnits(usdcBalance, 6)).toLocaleString() : '0';
+  const usdcBalanceFormatted = usdcBalance ? formatUsdc(usdcBalance, { minFractionDigits: 0 }) : '0';
   const vaultSharesFormatted = vaultShares ? formatUnits(vaultShares, 6) : '0.0001';
   
-  // Calculate estimated share value (shares use same decimals as underlying USDC = 6)
+  // Estimated share value in USDC base units, in bigint so large balances don't lose precision
   const shareValue = totalAssets && totalSupply && vaultShares
-    ? (parseFloat(formatUnits(totalAssets, 6)) * parseFloat(formatUnits(vaultShares, 6))) / parseFloat(formatUnits(totalSupply, 6))
-    : 3;
-
-  // Contract interactions
-  const { writeContract: approveUSDC, isPending: isApprovePending } = useWriteContract();
-  const { writeContract: depositToVault, isPending: isDepositPending } = useWriteContract();
-  const { writeContract: withdrawFromVault, isPending: isWithdrawPending } = useWriteContract();
-
-  // Check USDC allowance
-  const { data: allowance } = useReadContract({
-    address: chainId ? (getUSDCAddress(chainId) as `0x${string}`) : undefined,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: address && chainId ? [address, getContractAddress(chainId) as `0x${string}`] : undefined,
-    query: { enabled: !!address && !!chainId }
-  });
+    ? sharesToAssets(vaultShares, totalAssets, totalSupply)
+    : BigInt(3000000);
 
   // Handler functions
-  const handleApprove = async () => {
+  const handleApprove = () => {
     if (!amount || !chainId || !address) return;
-    
-    try {
-      setIsLoading(true);
-      await approveUSDC({
-        address: getUSDCAddress(chainId) as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [getContractAddress(chainId) as `0x${string}`, parseUnits(amount, 6)]
-      });
-    } catch (error) {
-      console.error('Approval failed:', error);
-    } finally {
-      setIsLoading(false);
-    }
+
+    tx.start({
+      kind: 'approve',
+      request: async () => buildApprovalRequest(chainId, address, parseUnits(amount, 6)),
+      onConfirmed: () => refetchVaultState(),
+    });
   };
 
-  const handleDeposit = async () => {
+  // Back to the balance view once the transaction confirms
+  const closeForm = () => {
+    setAmount('');
+    setMode('view');
+  };
+
+  const handleDeposit = () => {
     if (!amount || !chainId || !address) return;
-    
-    try {
-      setIsLoading(true);
-      await depositToVault({
-        address: getContractAddress(chainId) as `0x${string}`,
-        abi: AAVE_VAULT_ABI,
-        functionName: 'deposit',
-        args: [parseUnits(amount, 6), address]
-      });
-      setAmount('');
-      setMode('view');
-    } catch (error) {
-      console.error('Deposit failed:', error);
-    } finally {
-      setIsLoading(false);
-    }
+
+    tx.start({
+      kind: 'deposit',
+      request: () => buildDepositRequest({ chainId, receiver: address, assets: parseUnits(amount, 6) }),
+      onConfirmed: closeForm,
+    });
   };
 
-  const handleWithdraw = async () => {
+  const handleWithdraw = () => {
     if (!amount || !chainId || !address) return;
-    
-    try {
-      setIsLoading(true);
-      await withdrawFromVault({
-        address: getContractAddress(chainId) as `0x${string}`,
-        abi: AAVE_VAULT_ABI,
-        functionName: 'withdraw',
-        args: [parseUnits(amount, 6), address, address]
-      });
-      setAmount('');
-      setMode('view');
-    } catch (error) {
-      console.error('Withdraw failed:', error);
-    } finally {
-      setIsLoading(false);
-    }
+
+    tx.start({
+      kind: 'withdraw',
+      request: async () => buildWithdrawRequest(chainId, address, { assets: parseUnits(amount, 6) }),
+      onConfirmed: closeForm,
+    });
   };
 
-  // Validation
-  const isAmountValid = amount && parseFloat(amount) > 0;
-  const hasEnoughBalance = mode === 'deposit' 
-    ? usdcBalance && parseFloat(amount) <= parseFloat(formatUnits(usdcBalance, 6))
-    : vaultShares && parseFloat(amount) <= shareValue;
+  const isApprovePending = tx.isBusy && tx.kind === 'approve';
+  const isTransferPending = tx.isBusy && tx.kind !== 'approve';
+
+  // Validation, in base units (the number input always uses a dot decimal)
+  const parsedAmount = amount ? parseAmount(amount, 6, 'en-US')?.raw ?? null : null;
+  const isAmountValid = parsedAmount !== null && parsedAmount > BigInt(0);
+  const hasEnoughBalance = parsedAmount !== null && (mode === 'deposit'
+    ? !!usdcBalance && parsedAmount <= usdcBalance
+    : !!vaultShares && parsedAmount <= shareValue);
   
-  const needsApproval = mode === 'deposit' && allowance && parseFloat(amount) > parseFloat(formatUnits(allowance, 6));
-  const canProceed = isAmountValid && hasEnoughBalance && !isLoading;
+  const needsApproval = mode === 'deposit' && allowance !== undefined && parsedAmount !== null && parsedAmount > allowance;
+  const canProceed = isAmountValid && hasEnoughBalance && !tx.isBusy;
 
   if (mode === 'view') {
     return (
@@ -152,7 +99,7 @@ export const VaultActionsSimple = () => {
             </div>
             
             <div>
-              <div className="text-2xl font-semibold">${shareValue.toFixed(2)}</div>
+              <div className="text-2xl font-semibold">${formatUsdc(shareValue)}</div>
               <div className="text-gray-400 text-sm">4.47% APY</div>
             </div>
           </div>
@@ -206,7 +153,7 @@ export const VaultActionsSimple = () => {
       <div className="flex items-center justify-between mb-6">
         <h3 className="text-lg font-medium">{mode === 'deposit' ? 'Deposit' : 'Withdraw'}</h3>
         <button 
-          onClick={() => {setMode('view'); setAmount('');}}
+          onClick={() => {tx.cancel(); setMode('view'); setAmount('');}}
           className="text-gray-400 hover:text-white"
         >
           ✕
@@ -231,7 +178,7 @@ export const VaultActionsSimple = () => {
               if (mode === 'deposit' && usdcBalance) {
                 setAmount(formatUnits(usdcBalance, 6));
               } else if (mode === 'withdraw') {
-                setAmount(shareValue.toString());
+                setAmount(formatUnits(shareValue, 6));
               }
             }}
             className="absolute right-3 top-1/2 transform -translate-y-1/2 text-blue-400 text-sm hover:text-blue-300"
@@ -244,7 +191,7 @@ export const VaultActionsSimple = () => {
         <div className="mt-2 text-sm text-gray-400">
           Available: {mode === 'deposit' 
             ? `${usdcBalanceFormatted} USDC` 
-            : `$${shareValue.toFixed(2)} USDC`
+            : `$${formatUsdc(shareValue)} USDC`
           }
         </div>
       </div>
@@ -263,14 +210,14 @@ export const VaultActionsSimple = () => {
         
         <button
           onClick={mode === 'deposit' ? handleDeposit : handleWithdraw}
-          disabled={!canProceed || (mode === 'deposit' && needsApproval) || isDepositPending || isWithdrawPending}
+          disabled={!canProceed || (mode === 'deposit' && !!needsApproval)}
           className={`w-full py-3 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
             mode === 'deposit' 
               ? 'bg-white text-black hover:bg-gray-100' 
               : 'bg-gray-800 text-white hover:bg-gray-700'
           }`}
         >
-          {isDepositPending || isWithdrawPending 
+          {isTransferPending 
             ? (mode === 'deposit' ? 'Depositing...' : 'Withdrawing...') 
             : (mode === 'deposit' ? 'Deposit' : 'Withdraw')
           }
@@ -278,6 +225,9 @@ export const VaultActionsSimple = () => {
       </div>
 
       {/* Error/Warning Messages */}
+      {tx.error && (
+        <div className="mt-3 text-red-400 text-sm">{tx.error.message}</div>
+      )}
       {!hasEnoughBalance && amount && (
         <div className="mt-3 text-red-400 text-sm">
           Insufficient {mode === 'deposit' ? 'USDC' : 'vault'} balance
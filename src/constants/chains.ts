@@ -0,0 +1,342 @@
+import type { Address, Chain } from 'viem';
+import {
+  arbitrum,
+  arbitrumSepolia,
+  avalanche,
+  base,
+  baseSepolia,
+  hardhat,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  sepolia,
+} from 'viem/chains';
+
+/**
+ * Chain registry - single source of truth for every chain the app knows about.
+ * Adding a chain means adding one entry here; contracts, validation, wagmi,
+ * allocation and activity views all read from this table.
+ *
+ * Vault and USDC addresses below are the built-in defaults. The deployment
+ * manifest loaded at startup can override them without a rebuild.
+ */
+
+export const CHAIN_SLUGS = [
+  'localhost',
+  'ethereum',
+  'sepolia',
+  'base',
+  'baseSepolia',
+  'arbitrum',
+  'arbitrumSepolia',
+  'optimism',
+  'optimismSepolia',
+  'polygon',
+  'avalanche',
+] as const;
+
+export type ChainSlug = typeof CHAIN_SLUGS[number];
+
+// EIP-712 domain name and version of a vault's balance snapshots; chainId and verifyingContract come from the chain
+export interface SnapshotDomain {
+  name: string;
+  version: string;
+}
+
+// How an L2 charges for posting its data to L1
+export type RollupStack = 'op-stack' | 'arbitrum';
+
+export interface ChainConfig {
+  id: number;
+  slug: ChainSlug;
+  name: string;
+  viemChain: Chain;
+  vaultAddress: Address | null; // null if the AaveVault is not deployed yet
+  assetAddress: Address | null; // USDC on this chain
+  aavePoolAddress: Address | null; // Aave v3 Pool the vault supplies to, source of the live supply APY
+  rpcUrls: string[]; // Tried in order
+  explorerUrl: string | null;
+  icon: string;
+  color: string;
+  cctpDomain: number | null; // Circle CCTP domain id, null if CCTP is not available
+  testnet: boolean;
+  walletEnabled: boolean; // Offered in the wallet network switcher
+  tracked: boolean; // Shown in the cross-chain allocation view
+  legacyVault?: boolean; // Vault kept for existing depositors, not managed by the rebalancer
+  oracleSigner?: Address; // Agent address expected to sign the vault's cross-chain balance snapshots
+  oracleDomain?: SnapshotDomain; // EIP-712 name/version the vault verifies snapshots with, read via EIP-5267 when unset
+  rollup?: RollupStack; // L2 whose fee includes an L1 data component
+}
+
+export const CHAINS: ChainConfig[] = [
+  {
+    id: hardhat.id, // 31337
+    slug: 'localhost',
+    name: 'Localhost',
+    viemChain: hardhat,
+    vaultAddress: '0x610178dA211FEF7D417bC0e6FeD39F05609AD788',
+    assetAddress: '0x16f18Ee01365Ef23E0564dfB635215A5B4Eaa3c4', // MockUSDC for local testing
+    aavePoolAddress: null, // No Aave deployment on the local node
+    rpcUrls: ['http://127.0.0.1:8545'],
+    explorerUrl: null,
+    icon: '/Chain=ETH.svg',
+    color: '#888888',
+    cctpDomain: null,
+    testnet: true,
+    walletEnabled: true,
+    tracked: false,
+  },
+  {
+    id: mainnet.id,
+    slug: 'ethereum',
+    name: 'Ethereum',
+    viemChain: mainnet,
+    vaultAddress: null, // No AaveVault on mainnet yet; the Aave Pool itself is aavePoolAddress
+    assetAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    aavePoolAddress: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+    rpcUrls: [...mainnet.rpcUrls.default.http],
+    explorerUrl: 'https://etherscan.io',
+    icon: '/Chain=ETH.svg',
+    color: '#627EEA',
+    cctpDomain: 0,
+    testnet: false,
+    walletEnabled: true,
+    tracked: false,
+  },
+  {
+    id: sepolia.id,
+    slug: 'sepolia',
+    name: 'Ethereum Sepolia',
+    viemChain: sepolia,
+    vaultAddress: null, // Not deployed yet
+    assetAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', // Circle's official USDC on Sepolia
+    aavePoolAddress: '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951',
+    rpcUrls: ['https://rpc.sepolia.org', ...sepolia.rpcUrls.default.http],
+    explorerUrl: 'https://sepolia.etherscan.io',
+    icon: '/Chain=ETH.svg',
+    color: '#627EEA',
+    cctpDomain: 0,
+    testnet: true,
+    walletEnabled: true,
+    tracked: true,
+  },
+  {
+    id: base.id,
+    slug: 'base',
+    name: 'Base',
+    viemChain: base,
+    vaultAddress: null,
+    assetAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    aavePoolAddress: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+    rpcUrls: [...base.rpcUrls.default.http],
+    explorerUrl: 'https://basescan.org',
+    icon: '/Chain=BASE.svg',
+    color: '#0052FF',
+    cctpDomain: 6,
+    testnet: false,
+    walletEnabled: false,
+    tracked: false,
+    rollup: 'op-stack',
+  },
+  {
+    id: baseSepolia.id,
+    slug: 'baseSepolia',
+    name: 'Base Sepolia',
+    viemChain: baseSepolia,
+    vaultAddress: '0x773035EABdA16B5416B26E12156483C6B6F56451', // AaveVault on Base Sepolia (OLD - for reference)
+    assetAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Circle's official USDC on Base Sepolia testnet
+    aavePoolAddress: '0x07eA79F68B2B3df564D0A34F8e19D9B1e339814b',
+    rpcUrls: ['https://sepolia.base.org'],
+    explorerUrl: 'https://sepolia.basescan.org',
+    icon: '/Chain=BASE.svg',
+    color: '#0052FF',
+    cctpDomain: 6,
+    testnet: true,
+    walletEnabled: true,
+    tracked: true,
+    legacyVault: true,
+    rollup: 'op-stack',
+  },
+  {
+    id: arbitrum.id,
+    slug: 'arbitrum',
+    name: 'Arbitrum',
+    viemChain: arbitrum,
+    vaultAddress: null,
+    assetAddress: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    aavePoolAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    rpcUrls: [...arbitrum.rpcUrls.default.http],
+    explorerUrl: 'https://arbiscan.io',
+    icon: '/arbitrum-arb-logo.svg',
+    color: '#213147',
+    cctpDomain: 3,
+    testnet: false,
+    walletEnabled: false,
+    tracked: false,
+    rollup: 'arbitrum',
+  },
+  {
+    id: arbitrumSepolia.id,
+    slug: 'arbitrumSepolia',
+    name: 'Arbitrum Sepolia',
+    viemChain: arbitrumSepolia,
+    vaultAddress: '0xE168d95f8d1B8EC167A63c8E696076EC8EE95337',
+    assetAddress: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', // Circle's official USDC on Arbitrum Sepolia testnet
+    aavePoolAddress: '0xBfC91D59fdAA134A4ED45f7B584cAf96D7792Eff',
+    rpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc'],
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    icon: '/arbitrum-arb-logo.svg',
+    color: '#213147',
+    cctpDomain: 3,
+    testnet: true,
+    walletEnabled: true,
+    tracked: true,
+    oracleSigner: '0x20f2747bbc52453ac0774b5b2fe0e28dc6637f30', // Vault agent
+    rollup: 'arbitrum',
+  },
+  {
+    id: optimism.id,
+    slug: 'optimism',
+    name: 'Optimism',
+    viemChain: optimism,
+    vaultAddress: null,
+    assetAddress: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    aavePoolAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    rpcUrls: [...optimism.rpcUrls.default.http],
+    explorerUrl: 'https://optimistic.etherscan.io',
+    icon: '/optimism-ethereum-op-logo.svg',
+    color: '#FF0420',
+    cctpDomain: 2,
+    testnet: false,
+    walletEnabled: false,
+    tracked: false,
+    rollup: 'op-stack',
+  },
+  {
+    id: optimismSepolia.id,
+    slug: 'optimismSepolia',
+    name: 'Optimism Sepolia',
+    viemChain: optimismSepolia,
+    vaultAddress: null, // To be deployed
+    assetAddress: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', // Circle's official USDC on Optimism Sepolia testnet
+    aavePoolAddress: '0xb50201558B00496A145fE76f7424749556E326D8',
+    rpcUrls: ['https://sepolia.optimism.io'],
+    explorerUrl: 'https://sepolia.optimistic.etherscan.io',
+    icon: '/optimism-ethereum-op-logo.svg',
+    color: '#FF0420',
+    cctpDomain: 2,
+    testnet: true,
+    walletEnabled: true,
+    tracked: true,
+    rollup: 'op-stack',
+  },
+  {
+    id: polygon.id,
+    slug: 'polygon',
+    name: 'Polygon',
+    viemChain: polygon,
+    vaultAddress: null,
+    assetAddress: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    aavePoolAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    rpcUrls: [...polygon.rpcUrls.default.http],
+    explorerUrl: 'https://polygonscan.com',
+    icon: '/Chain=POL.svg',
+    color: '#8247E5',
+    cctpDomain: 7,
+    testnet: false,
+    walletEnabled: false,
+    tracked: false,
+  },
+  {
+    id: avalanche.id,
+    slug: 'avalanche',
+    name: 'Avalanche',
+    viemChain: avalanche,
+    vaultAddress: null,
+    assetAddress: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    aavePoolAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    rpcUrls: [...avalanche.rpcUrls.default.http],
+    explorerUrl: 'https://snowtrace.io',
+    icon: '/Chain=AVA.svg',
+    color: '#E84142',
+    cctpDomain: 1,
+    testnet: false,
+    walletEnabled: false,
+    tracked: false,
+  },
+];
+
+// Per-chain address overrides loaded at runtime from the deployment manifest
+export interface ChainDeployment {
+  vaultAddress?: Address | null;
+  assetAddress?: Address | null;
+  aavePoolAddress?: Address | null;
+  oracleSigner?: Address;
+  oracleDomain?: SnapshotDomain;
+}
+
+const CHAINS_BY_ID = new Map(CHAINS.map(chain => [chain.id, chain]));
+const deploymentOverrides = new Map<number, ChainDeployment>();
+
+// Replace the runtime overrides; chains without an override use the built-in defaults above
+export const applyChainDeployments = (deployments: Record<number, ChainDeployment>) => {
+  deploymentOverrides.clear();
+  for (const [chainId, deployment] of Object.entries(deployments)) {
+    if (CHAINS_BY_ID.has(Number(chainId))) {
+      deploymentOverrides.set(Number(chainId), deployment);
+    }
+  }
+};
+
+const withDeployment = (chain: ChainConfig): ChainConfig => {
+  const deployment = deploymentOverrides.get(chain.id);
+  if (!deployment) return chain;
+  return {
+    ...chain,
+    vaultAddress: deployment.vaultAddress !== undefined ? deployment.vaultAddress : chain.vaultAddress,
+    assetAddress: deployment.assetAddress !== undefined ? deployment.assetAddress : chain.assetAddress,
+    aavePoolAddress: deployment.aavePoolAddress !== undefined ? deployment.aavePoolAddress : chain.aavePoolAddress,
+    oracleSigner: deployment.oracleSigner ?? chain.oracleSigner,
+    oracleDomain: deployment.oracleDomain ?? chain.oracleDomain,
+  };
+};
+
+// All chains with deployment overrides applied
+export const getChains = (): ChainConfig[] => CHAINS.map(withDeployment);
+
+// Fallbacks for chains missing from the registry
+export const DEFAULT_CHAIN_ICON = '/Chain=ETH.svg';
+export const DEFAULT_CHAIN_COLOR = '#666666';
+
+// Look up a chain by id, undefined if the chain is unknown
+export const getChain = (chainId: number): ChainConfig | undefined => {
+  const chain = CHAINS_BY_ID.get(chainId);
+  return chain ? withDeployment(chain) : undefined;
+};
+
+export const getChainBySlug = (slug: string): ChainConfig | undefined =>
+  getChains().find(chain => chain.slug === slug);
+
+// Display name for a chain id, with a generic label for unknown chains
+export const getChainName = (chainId: number): string =>
+  getChain(chainId)?.name ?? `Chain ${chainId}`;
+
+// Chains where users can deposit into a vault
+export const getVaultChains = (): ChainConfig[] => getChains().filter(chain => chain.vaultAddress !== null);
+
+export const isVaultChain = (chainId: number): boolean => !!getChain(chainId)?.vaultAddress;
+
+// Whether deposits on this chain can use an oracle-signed balance snapshot (needed once funds are invested cross-chain)
+export const supportsSignatureDeposits = (chainId: number): boolean =>
+  isVaultChain(chainId) && !!getChain(chainId)?.oracleSigner;
+
+// Chain for a CCTP domain; mainnets and testnets share domain ids, so pick the matching network type
+export const getChainByCctpDomain = (domain: number, testnet: boolean): ChainConfig | undefined =>
+  getChains().find(chain => chain.cctpDomain === domain && chain.testnet === testnet);
+
+// Block explorer link for a transaction, null when the chain has no explorer
+export const getExplorerTxUrl = (chainId: number, txHash: string): string | null => {
+  const explorerUrl = getChain(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl}/tx/${txHash}` : null;
+};
@@ -45,6 +45,19 @@ export const MESSAGES = {
     NETWORK_ERROR: "Network error occurred"
   },
   
+  // Contract revert reasons, keyed by the decoded custom error name
+  CONTRACT_ERROR: {
+    SignatureExpired: "The cross-chain balance snapshot expired before the deposit went through. Please try again.",
+    InvalidSignature: "The vault rejected the oracle signature. Please try again.",
+    InvalidAmount: "Invalid amount. Please check your input.",
+    ERC4626ExceededMaxDeposit: "This deposit exceeds the vault's current deposit limit.",
+    ERC4626ExceededMaxMint: "This deposit exceeds the vault's current share limit.",
+    ERC4626ExceededMaxWithdraw: "This withdrawal exceeds the amount you can withdraw right now.",
+    ERC4626ExceededMaxRedeem: "This redemption exceeds the shares you can redeem right now.",
+    ERC20InsufficientAllowance: "Your USDC spending limit is too low for this deposit. Please approve a higher amount.",
+    ERC20InsufficientBalance: "Insufficient USDC balance for this transaction."
+  },
+  
   // Loading messages
   LOADING: {
     DEPOSIT: "Deposit in progress...",
@@ -96,4 +109,4 @@ export interface MessageConfig {
 }
 
 // Export individual message categories for easier imports
-export const { WELCOME, WELCOME_BACK, INFO, SUCCESS, ERROR, LOADING, UI, STATUS } = MESSAGES;
+export const { WELCOME, WELCOME_BACK, INFO, SUCCESS, ERROR, CONTRACT_ERROR, LOADING, UI, STATUS } = MESSAGES;
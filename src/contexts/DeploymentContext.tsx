@@ -0,0 +1,43 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { BUILTIN_DEPLOYMENT, loadDeploymentManifest, type DeploymentInfo } from '@/lib/deploymentManifest';
+
+const DeploymentContext = createContext<DeploymentInfo>(BUILTIN_DEPLOYMENT);
+
+export const useDeployment = () => {
+  return useContext(DeploymentContext);
+};
+
+interface DeploymentProviderProps {
+  children: ReactNode;
+}
+
+// Loads the deployment manifest once, before rendering anything that reads contract addresses
+export const DeploymentProvider: React.FC<DeploymentProviderProps> = ({ children }) => {
+  const [deployment, setDeployment] = useState<DeploymentInfo | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDeploymentManifest().then((info) => {
+      if (!cancelled) setDeployment(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!deployment) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <DeploymentContext.Provider value={deployment}>
+      {children}
+    </DeploymentContext.Provider>
+  );
+};
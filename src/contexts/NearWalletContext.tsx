@@ -1,23 +1,98 @@
 'use client';
 
-import React, { createContext, useContext } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { setupWalletSelector, type WalletSelector } from '@near-wallet-selector/core';
+import { setupModal, type WalletSelectorModal } from '@near-wallet-selector/modal-ui';
+import { setupMyNearWallet } from '@near-wallet-selector/my-near-wallet';
+import { setupMeteorWallet } from '@near-wallet-selector/meteor-wallet';
+import { getNearNetwork, getNearRpcClient } from '@/utils/nearRpc';
+import { getNearContractId } from '@/utils/nearContract';
+import '@near-wallet-selector/modal-ui/styles.css';
 
 interface NearWalletContextType {
-  selector: null;
+  selector: WalletSelector | null;
+  modal: WalletSelectorModal | null;
+  accountId: string | null;
+  isOperator: boolean; // Signed in with an account allowed to administer the rebalancer
+  signIn: () => void;
+  signOut: () => Promise<void>;
 }
 
 const NearWalletContext = createContext<NearWalletContextType>({
-  selector: null
+  selector: null,
+  modal: null,
+  accountId: null,
+  isOperator: false,
+  signIn: () => undefined,
+  signOut: async () => undefined,
 });
 
 export const useNearWallet = () => {
   return useContext(NearWalletContext);
 };
 
+// Accounts shown the admin controls; empty means any signed-in account (the contract enforces access either way)
+const getOperatorAccounts = (): string[] =>
+  (process.env.NEXT_PUBLIC_NEAR_OPERATOR_ACCOUNTS || '')
+    .split(',')
+    .map(account => account.trim())
+    .filter(Boolean);
+
 export const NearWalletProvider = ({ children }: { children: React.ReactNode }) => {
+  const [selector, setSelector] = useState<WalletSelector | null>(null);
+  const [modal, setModal] = useState<WalletSelectorModal | null>(null);
+  const [accountId, setAccountId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const init = async () => {
+      try {
+        const walletSelector = await setupWalletSelector({
+          network: getNearNetwork(),
+          modules: [setupMyNearWallet(), setupMeteorWallet()],
+          fallbackRpcUrls: getNearRpcClient().endpoints, // Same endpoints as the view-only reader
+        });
+        if (cancelled) return;
+
+        const walletModal = setupModal(walletSelector, { contractId: getNearContractId(), theme: 'dark' });
+        const subscription = walletSelector.store.observable.subscribe(state => {
+          const active = state.accounts.find(account => account.active);
+          setAccountId(active?.accountId ?? null);
+        });
+        unsubscribe = () => subscription.unsubscribe();
+
+        setSelector(walletSelector);
+        setModal(walletModal);
+      } catch (error) {
+        console.error('❌ Failed to initialise NEAR wallet selector:', error);
+      }
+    };
+
+    init();
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const signIn = useCallback(() => {
+    modal?.show();
+  }, [modal]);
+
+  const signOut = useCallback(async () => {
+    if (!selector?.isSignedIn()) return;
+    const wallet = await selector.wallet();
+    await wallet.signOut();
+  }, [selector]);
+
+  const operators = getOperatorAccounts();
+  const isOperator = !!accountId && (operators.length === 0 || operators.includes(accountId));
+
   return (
-    <NearWalletContext.Provider value={{ selector: null }}>
+    <NearWalletContext.Provider value={{ selector, modal, accountId, isOperator, signIn, signOut }}>
       {children}
     </NearWalletContext.Provider>
   );
-}; 
\ No newline at end of file
+};
@@ -1,9 +1,11 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
 
 const STORAGE_KEY = 'rebalancer_tx_history';
 const MAX_PERSISTED_TRANSACTIONS = 10;
+const PENDING_STORAGE_KEY = 'rebalancer_pending_txs';
+const PERSISTED_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
 
 export interface StatusMessage {
   id: string;
@@ -14,6 +16,16 @@ export interface StatusMessage {
   chainId?: number;
 }
 
+// Wallet transaction sent but not mined yet, kept across reloads so the tray can follow it
+export interface PendingTransaction {
+  hash: string;      // Latest hash for the nonce, follows speed-ups
+  chainId: number;
+  from: string;
+  label: string;     // "Deposit", "Withdrawal"...
+  timestamp: number;
+  watched: boolean;  // A running transaction flow waits on it; false after a reload, the tray follows it then
+}
+
 interface TransactionStatusContextType {
   messages: StatusMessage[];
   persistedTransactions: StatusMessage[];
@@ -22,6 +34,10 @@ interface TransactionStatusContextType {
   removeMessage: (id: string) => void;
   clearMessages: () => void;
   clearPersistedTransaction: (id: string) => void;
+  pendingTransactions: PendingTransaction[];
+  trackPendingTransaction: (tx: Omit<PendingTransaction, 'timestamp'>) => void;
+  updatePendingTransaction: (hash: string, patch: Partial<Omit<PendingTransaction, 'timestamp'>>) => void;
+  resolvePendingTransaction: (hash: string) => void;
 }
 
 const TransactionStatusContext = createContext<TransactionStatusContextType | undefined>(undefined);
@@ -46,7 +62,7 @@ const loadPersistedTransactions = (): StatusMessage[] => {
     if (stored) {
       const parsed = JSON.parse(stored);
       // Filter out transactions older than 7 days
-      const sevenDaysAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
+      const sevenDaysAgo = Date.now() - PERSISTED_MAX_AGE_MS;
       return parsed.filter((tx: StatusMessage) => tx.timestamp > sevenDaysAgo);
     }
   } catch (e) {
@@ -65,14 +81,42 @@ const savePersistedTransactions = (transactions: StatusMessage[]) => {
   }
 };
 
+// Pending transactions from an earlier session; nothing waits on them until the tray picks them up
+const loadPendingTransactions = (): PendingTransaction[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(PENDING_STORAGE_KEY);
+    if (stored) {
+      const sevenDaysAgo = Date.now() - PERSISTED_MAX_AGE_MS;
+      return (JSON.parse(stored) as PendingTransaction[])
+        .filter(tx => tx.timestamp > sevenDaysAgo)
+        .map(tx => ({ ...tx, watched: false }));
+    }
+  } catch (e) {
+    console.error('Failed to load pending transactions:', e);
+  }
+  return [];
+};
+
+const savePendingTransactions = (transactions: PendingTransaction[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(transactions));
+  } catch (e) {
+    console.error('Failed to save pending transactions:', e);
+  }
+};
+
 export const TransactionStatusProvider: React.FC<TransactionStatusProviderProps> = ({ children }) => {
   const [messages, setMessages] = useState<StatusMessage[]>([]);
   const [persistedTransactions, setPersistedTransactions] = useState<StatusMessage[]>([]);
+  const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>([]);
 
   // Load persisted transactions on mount
   useEffect(() => {
     const loaded = loadPersistedTransactions();
     setPersistedTransactions(loaded);
+    setPendingTransactions(loadPendingTransactions());
   }, []);
 
   // Helper to persist a successful transaction
@@ -153,6 +197,27 @@ export const TransactionStatusProvider: React.FC<TransactionStatusProviderProps>
     });
   };
 
+  // Stable so transaction flows can hold on to them across renders
+  const changePendingTransactions = useCallback((change: (prev: PendingTransaction[]) => PendingTransaction[]) => {
+    setPendingTransactions(prev => {
+      const updated = change(prev);
+      savePendingTransactions(updated);
+      return updated;
+    });
+  }, []);
+
+  const trackPendingTransaction = useCallback((tx: Omit<PendingTransaction, 'timestamp'>) => {
+    changePendingTransactions(prev => [{ ...tx, timestamp: Date.now() }, ...prev.filter(p => p.hash !== tx.hash)]);
+  }, [changePendingTransactions]);
+
+  const updatePendingTransaction = useCallback((hash: string, patch: Partial<Omit<PendingTransaction, 'timestamp'>>) => {
+    changePendingTransactions(prev => prev.map(tx => (tx.hash === hash ? { ...tx, ...patch } : tx)));
+  }, [changePendingTransactions]);
+
+  const resolvePendingTransaction = useCallback((hash: string) => {
+    changePendingTransactions(prev => prev.filter(tx => tx.hash !== hash));
+  }, [changePendingTransactions]);
+
   return (
     <TransactionStatusContext.Provider value={{ 
       messages, 
@@ -161,7 +226,11 @@ export const TransactionStatusProvider: React.FC<TransactionStatusProviderProps>
       upsertMessage, 
       removeMessage, 
       clearMessages,
-      clearPersistedTransaction 
+      clearPersistedTransaction,
+      pendingTransactions,
+      trackPendingTransaction,
+      updatePendingTransaction,
+      resolvePendingTransaction,
     }}>
       {children}
     </TransactionStatusContext.Provider>
@@ -2,7 +2,11 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useAccount, useReadContract } from 'wagmi';
-import { AAVE_VAULT_ABI, getContractAddress } from '@/utils/contracts';
+import { AAVE_VAULT_ABI } from '@/utils/contracts';
+import { getChain } from '@/constants/chains';
+import { toAmount, toDisplayNumber, SHARE_DECIMALS } from '@/lib/amount';
+import { useSupplyApy } from '@/hooks/useSupplyApy';
+import { apyToDailyRate, FALLBACK_SUPPLY_APY } from '@/utils/aaveRates';
 
 interface WelcomeContextType {
   showWelcome: boolean;
@@ -35,6 +39,7 @@ export const WelcomeProvider: React.FC<WelcomeProviderProps> = ({ children }) =>
   const [hasDeposits, setHasDeposits] = useState(false);
   const [showWelcomeBack, setShowWelcomeBack] = useState(false);
   const [yieldEarned, setYieldEarned] = useState(0);
+  const { apy: supplyApy } = useSupplyApy(chainId);
 
   // Reset state when wallet address changes
   useEffect(() => {
@@ -50,14 +55,15 @@ export const WelcomeProvider: React.FC<WelcomeProviderProps> = ({ children }) =>
   }, [address]);
 
 
-  // Read user's vault shares to determine if they have deposits
+  // Read user's vault shares to determine if they have deposits (none on chains without a vault)
+  const vaultAddress = chainId ? getChain(chainId)?.vaultAddress ?? undefined : undefined;
   const { data: vaultShares } = useReadContract({
-    address: chainId ? (getContractAddress(chainId) as `0x${string}`) : undefined,
+    address: vaultAddress,
     abi: AAVE_VAULT_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
     query: { 
-      enabled: !!address && !!chainId && isConnected,
+      enabled: !!address && !!vaultAddress && isConnected,
     },
   });
 
@@ -95,12 +101,10 @@ export const WelcomeProvider: React.FC<WelcomeProviderProps> = ({ children }) =>
 
     // Calculate realistic yield based on AAVE APY instead of anomalous share price
     if (vaultShares) {
-      const userShares = Number(vaultShares) / 1e6; // Convert from wei to USDC (6 decimals)
+      const userShares = toDisplayNumber(toAmount(vaultShares as bigint, SHARE_DECIMALS)); // Shares use USDC's 6 decimals
       
-      // Use realistic AAVE APY (~4.5%) instead of backend sharePrice which may be anomalous
-      // Calculate daily yield: (userValue * APY) / 365
-      const AAVE_APY = 0.045; // 4.5% APY
-      const dailyYield = (userShares * AAVE_APY) / 365;
+      // Use the live Aave supply APY on this chain instead of backend sharePrice which may be anomalous
+      const dailyYield = userShares * apyToDailyRate(supplyApy ?? FALLBACK_SUPPLY_APY);
       
       // Round to 2 decimals
       setYieldEarned(Math.round(dailyYield * 100) / 100);
@@ -110,7 +114,7 @@ export const WelcomeProvider: React.FC<WelcomeProviderProps> = ({ children }) =>
       setYieldEarned(0);
       setShowWelcomeBack(false);
     }
-  }, [address, isConnected, hasDeposits, vaultShares]);
+  }, [address, isConnected, hasDeposits, vaultShares, supplyApy]);
 
   const dismissWelcome = () => {
     // Just a placeholder - welcome will show again if user still has no deposits
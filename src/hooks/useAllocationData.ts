@@ -2,142 +2,71 @@
 
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { createPublicClient, http, formatUnits, type Chain } from 'viem';
-import { arbitrumSepolia, baseSepolia, optimismSepolia, sepolia } from 'viem/chains';
 import { useMockData } from '@/components/ClientProviders';
-import { AAVE_VAULT_ABI } from '@/utils/contracts';
+import { getChain, getChains, getChainBySlug, type ChainConfig } from '@/constants/chains';
+import { convertDecimals, formatUsdc, percentOf, toAmount, toDisplayNumber, USDC_DECIMALS } from '@/lib/amount';
+import { createNearContractReader } from '@/utils/nearContract';
+import { getSupplyApys } from '@/utils/aaveRates';
+import { readVaultState } from '@/utils/vaultReads';
 
 export interface AllocationItem {
+  chainId: number;
   name: string;
   icon: string;
-  apy: number;
-  allocation: number;
+  apy: number | null;              // Live Aave USDC supply APY, null when the Pool can't be read
+  allocation: number;              // Actual share from on-chain vault balances, percent
   color: string;
+  balance: bigint | null;          // On-chain vault totalAssets, USDC base units; null when the read failed
+  agentBalance: bigint | null;     // Rebalancer's view from NEAR get_allocations, null when unavailable
+  targetAllocation: number | null; // Rebalancer's intended share, percent
+  discrepancy: number | null;      // targetAllocation - allocation, percentage points; null when either side is unknown
+  flagged: boolean;                // |discrepancy| at or above the threshold
 }
 
-// Chain configuration with vault addresses and RPC endpoints
-interface ChainConfig {
-  chainId: number;
-  name: string;
-  vaultAddress: string | null; // null if not deployed yet
-  rpcUrl: string;
-  viemChain: Chain;
-}
+// Gap (percentage points) between the agent's and the on-chain allocation worth flagging
+export const ALLOCATION_DISCREPANCY_THRESHOLD = 2;
 
-const CHAIN_CONFIGS: ChainConfig[] = [
-  {
-    chainId: 421614,
-    name: 'Arbitrum Sepolia',
-    vaultAddress: '0xE168d95f8d1B8EC167A63c8E696076EC8EE95337',
-    rpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc',
-    viemChain: arbitrumSepolia
-  },
-  {
-    chainId: 84532,
-    name: 'Base Sepolia',
-    vaultAddress: null, // Not deployed yet
-    rpcUrl: 'https://sepolia.base.org',
-    viemChain: baseSepolia
-  },
-  {
-    chainId: 11155420,
-    name: 'Optimism Sepolia',
-    vaultAddress: null, // Not deployed yet
-    rpcUrl: 'https://sepolia.optimism.io',
-    viemChain: optimismSepolia
-  },
-  {
-    chainId: 11155111,
-    name: 'Ethereum Sepolia',
-    vaultAddress: null, // Not deployed yet
-    rpcUrl: 'https://rpc.sepolia.org',
-    viemChain: sepolia
+// Rebalancer's per-chain amounts in USDC base units; null when NEAR is unreachable
+async function getAgentAllocations(): Promise<Map<number, bigint> | null> {
+  try {
+    const allocations = await createNearContractReader().getAllocations();
+    console.log('🤖 Rebalancer allocations from NEAR:', allocations);
+    return new Map(allocations.map(({ chainId, amount, decimals }) =>
+      [chainId, convertDecimals(toAmount(amount, decimals), USDC_DECIMALS).raw]
+    ));
+  } catch (error) {
+    console.error('❌ Failed to read rebalancer allocations from NEAR:', error);
+    return null;
   }
-];
-
-const PROTOCOL_ICONS: Record<string, string> = {
-  'ethereum': '/Chain=ETH.svg',
-  'base': '/Chain=BASE.svg', 
-  'polygon': '/Chain=POL.svg',
-  'avalanche': '/Chain=AVA.svg',
-  'arbitrum': '/arbitrum-arb-logo.svg',
-  'optimism': '/optimism-ethereum-op-logo.svg',
-  'binance': '/Chain=BNB.svg',
-  'near': '/Chain=ETH.svg',
-  // Testnets
-  'localhost': '/Chain=ETH.svg',
-  'base sepolia': '/Chain=BASE.svg',
-  'arbitrum sepolia': '/arbitrum-arb-logo.svg',
-  'optimism sepolia': '/optimism-ethereum-op-logo.svg',
-  'ethereum sepolia': '/Chain=ETH.svg'
-};
-
-const PROTOCOL_COLORS: Record<string, string> = {
-  'ethereum': '#627EEA',
-  'base': '#0052FF',
-  'polygon': '#8247E5', 
-  'avalanche': '#E84142',
-  'arbitrum': '#213147',
-  'optimism': '#FF0420',
-  'binance': '#F3BA2F',
-  'near': '#00D395',
-  // Testnets
-  'localhost': '#888888',
-  'base sepolia': '#0052FF',
-  'arbitrum sepolia': '#213147',
-  'optimism sepolia': '#FF0420',
-  'ethereum sepolia': '#627EEA'
-};
-
-const calculateEstimatedAPY = (protocol: string): number => {
-  const apyEstimates: Record<string, number> = {
-    'ethereum': 4.2,
-    'base': 3.8,
-    'polygon': 2.4,
-    'avalanche': 4.0,
-    'arbitrum': 3.5,
-    'optimism': 3.2,
-    'binance': 5.1,
-    'near': 7.2,
-    // Testnets
-    'localhost': 3.5,
-    'base sepolia': 3.8,
-    'arbitrum sepolia': 3.5,
-    'optimism sepolia': 3.2,
-    'ethereum sepolia': 4.2
-  };
-  return apyEstimates[protocol.toLowerCase()] || 3.5;
-};
+}
 
-// Read vault totalAssets directly from the chain
-async function getVaultBalance(config: ChainConfig): Promise<{ chainId: number; balance: bigint }> {
-  if (!config.vaultAddress) {
-    return { chainId: config.chainId, balance: BigInt(0) };
+// Read vault totalAssets directly from the chain; null balance when the read fails, so it isn't mistaken for an empty vault
+async function getVaultBalance(config: ChainConfig): Promise<{ chainId: number; balance: bigint | null }> {
+  // Legacy vaults are not part of the rebalancer's allocation
+  if (!config.vaultAddress || config.legacyVault) {
+    return { chainId: config.id, balance: BigInt(0) };
   }
 
   try {
-    const client = createPublicClient({
-      chain: config.viemChain,
-      transport: http(config.rpcUrl)
-    });
-
-    const totalAssets = await client.readContract({
-      address: config.vaultAddress as `0x${string}`,
-      abi: AAVE_VAULT_ABI,
-      functionName: 'totalAssets'
-    }) as bigint;
+    // Shared client and batched read, no new client per refresh
+    const { totalAssets } = await readVaultState(config.id);
+    if (totalAssets === undefined) {
+      throw new Error('totalAssets read failed');
+    }
 
     console.log(`📊 ${config.name} vault totalAssets: ${totalAssets.toString()}`);
-    return { chainId: config.chainId, balance: totalAssets };
+    return { chainId: config.id, balance: totalAssets };
   } catch (error) {
     console.error(`❌ Failed to read ${config.name} vault:`, error);
-    return { chainId: config.chainId, balance: BigInt(0) };
+    return { chainId: config.id, balance: null };
   }
 }
 
 export const useAllocationData = () => {
   const [allocations, setAllocations] = useState<AllocationItem[]>([]);
   const [totalValue, setTotalValue] = useState<number>(0);
+  const [inFlight, setInFlight] = useState<bigint>(BigInt(0)); // Agent total above on-chain total, e.g. USDC mid-CCTP
+  const [agentAvailable, setAgentAvailable] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { isConnected } = useAccount();
@@ -153,51 +82,104 @@ export const useAllocationData = () => {
         
         // If mock is enabled, return varied allocations
         if (useMock) {
+          const mockAllocation = (slug: string, apy: number, allocation: number, targetAllocation: number): AllocationItem => {
+            const chain = getChainBySlug(slug)!;
+            const balance = BigInt(allocation * 12345670000);
+            const discrepancy = targetAllocation - allocation;
+            return {
+              chainId: chain.id, name: chain.name, icon: chain.icon, apy, allocation, color: chain.color,
+              balance, agentBalance: BigInt(targetAllocation * 12345670000), targetAllocation, discrepancy,
+              flagged: Math.abs(discrepancy) >= ALLOCATION_DISCREPANCY_THRESHOLD,
+            };
+          };
           const mock: AllocationItem[] = [
-            { name: 'Ethereum Sepolia', icon: PROTOCOL_ICONS['ethereum sepolia'], apy: 4.2, allocation: 44, color: PROTOCOL_COLORS['ethereum sepolia'] },
-            { name: 'Arbitrum Sepolia', icon: PROTOCOL_ICONS['arbitrum sepolia'], apy: 3.5, allocation: 27, color: PROTOCOL_COLORS['arbitrum sepolia'] },
-            { name: 'Base Sepolia', icon: PROTOCOL_ICONS['base sepolia'], apy: 3.8, allocation: 14, color: PROTOCOL_COLORS['base sepolia'] },
-            { name: 'Optimism Sepolia', icon: PROTOCOL_ICONS['optimism sepolia'], apy: 3.2, allocation: 15, color: PROTOCOL_COLORS['optimism sepolia'] },
+            mockAllocation('sepolia', 4.2, 44, 44),
+            mockAllocation('arbitrumSepolia', 3.5, 27, 27),
+            mockAllocation('baseSepolia', 3.8, 14, 19),
+            mockAllocation('optimismSepolia', 3.2, 15, 10),
           ].sort((a,b) => b.allocation - a.allocation);
           setAllocations(mock);
           setTotalValue(1234567);
+          setInFlight(BigInt(0));
+          setAgentAvailable(true);
           return;
         }
 
-        // Read balances directly from each chain's vault contract
+        // Chains shown in the allocation view, straight from the chain registry
+        const trackedChains: ChainConfig[] = getChains().filter(chain => chain.tracked);
+
+        // Read balances directly from each chain's vault contract, alongside the rebalancer's own view
         console.log('📡 Reading vault balances from each chain...');
-        const balancePromises = CHAIN_CONFIGS.map(config => getVaultBalance(config));
-        const balanceResults = await Promise.all(balancePromises);
+        const balancePromises = trackedChains.map(config => getVaultBalance(config));
+        const [balanceResults, agentAllocations] = await Promise.all([
+          Promise.all(balancePromises),
+          getAgentAllocations(),
+        ]);
+
+        // Chains the agent allocates to but the registry doesn't track still get a row
+        const untrackedChains: ChainConfig[] = [];
+        agentAllocations?.forEach((_, chainId) => {
+          const config = getChain(chainId);
+          if (!config) {
+            console.warn(`⚠️ Rebalancer reports allocation on unknown chain ${chainId}`);
+          } else if (!trackedChains.some(chain => chain.id === chainId)) {
+            untrackedChains.push(config);
+          }
+        });
+        trackedChains.push(...untrackedChains);
+        const [untrackedBalances, supplyApys] = await Promise.all([
+          Promise.all(untrackedChains.map(config => getVaultBalance(config))),
+          getSupplyApys(trackedChains.map(config => config.id)),
+        ]);
+        balanceResults.push(...untrackedBalances);
         
-        // Calculate total across all vaults (USDC has 6 decimals)
-        const totalRaw = balanceResults.reduce((sum, result) => sum + result.balance, BigInt(0));
-        const totalUSDC = Number(formatUnits(totalRaw, 6)); // USDC has 6 decimals
+        // Calculate total across readable vaults in base units, converted to a number only for display
+        const totalRaw = balanceResults.reduce((sum, result) => sum + (result.balance ?? BigInt(0)), BigInt(0));
+        const totalUSDC = toDisplayNumber(toAmount(totalRaw, USDC_DECIMALS));
         
-        console.log(`💰 Total value across all vaults: ${totalUSDC} USDC`);
+        console.log(`💰 Total value across all vaults: ${formatUsdc(totalRaw)} USDC`);
+
+        const agentTotal = agentAllocations
+          ? Array.from(agentAllocations.values()).reduce((sum, amount) => sum + amount, BigInt(0))
+          : null;
+        // Agent total over the same chains as totalRaw: chains whose vault read failed can't be compared
+        const unreadableChainIds = new Set(balanceResults.filter(r => r.balance === null).map(r => r.chainId));
+        const comparableAgentTotal = agentAllocations && agentTotal !== null
+          ? Array.from(unreadableChainIds).reduce((sum, chainId) => sum - (agentAllocations.get(chainId) ?? BigInt(0)), agentTotal)
+          : null;
 
         // Build allocation items
-        const allocationItems: AllocationItem[] = CHAIN_CONFIGS.map(config => {
-          const result = balanceResults.find(r => r.chainId === config.chainId);
-          const balance = result?.balance || BigInt(0);
-          const balanceUSDC = Number(formatUnits(balance, 6));
-          
-          // Calculate percentage (handle 0 total case)
-          let allocationPercent = 0;
-          if (totalRaw > BigInt(0)) {
-            // Use bigint math to avoid precision loss
-            allocationPercent = Number((balance * BigInt(100)) / totalRaw);
-          }
-          
-          const chainNameLower = config.name.toLowerCase();
+        const allocationItems: AllocationItem[] = trackedChains.map(config => {
+          const result = balanceResults.find(r => r.chainId === config.id);
+          const balance = result ? result.balance : BigInt(0);
           
-          console.log(`🎯 ${config.name}: ${balanceUSDC} USDC (${allocationPercent}%)`);
+          // Calculate percentage in bigint math (0 when the total is 0 or the balance is unknown)
+          const allocationPercent = balance !== null ? percentOf(balance, totalRaw, 0) : 0;
+
+          const agentBalance = agentAllocations ? agentAllocations.get(config.id) ?? BigInt(0) : null;
+          const targetAllocation = agentBalance !== null && agentTotal !== null ? percentOf(agentBalance, agentTotal, 0) : null;
+          // Compare at one decimal so rounding to whole percents doesn't hide or create a gap
+          const discrepancy = agentBalance !== null && comparableAgentTotal !== null && balance !== null
+            ? Math.round((percentOf(agentBalance, comparableAgentTotal, 1) - percentOf(balance, totalRaw, 1)) * 10) / 10
+            : null;
+          const flagged = discrepancy !== null && Math.abs(discrepancy) >= ALLOCATION_DISCREPANCY_THRESHOLD;
+
+          console.log(`🎯 ${config.name}: ${balance !== null ? `${formatUsdc(balance)} USDC` : 'unavailable'} (${allocationPercent}%)` +
+            (targetAllocation !== null ? `, agent ${formatUsdc(agentBalance!)} USDC (${targetAllocation}%)` : '') +
+            (flagged ? ' ⚠️ discrepancy' : ''));
           
           return {
+            chainId: config.id,
             name: config.name,
-            icon: PROTOCOL_ICONS[chainNameLower] || '/Chain=ETH.svg',
-            apy: calculateEstimatedAPY(config.name),
+            icon: config.icon,
+            apy: supplyApys.get(config.id) ?? null,
             allocation: allocationPercent,
-            color: PROTOCOL_COLORS[chainNameLower] || '#666666'
+            color: config.color,
+            balance,
+            agentBalance,
+            targetAllocation,
+            discrepancy,
+            flagged
           };
         });
 
@@ -211,21 +193,31 @@ export const useAllocationData = () => {
 
         setAllocations(sortedAllocations);
         setTotalValue(totalUSDC);
+        setInFlight(comparableAgentTotal !== null && comparableAgentTotal > totalRaw ? comparableAgentTotal - totalRaw : BigInt(0));
+        setAgentAvailable(agentAllocations !== null);
 
       } catch (err) {
         console.error('💥 Error in fetchAllocationData:', err);
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
         
         // Set fallback data showing all chains with 0%
-        const fallbackAllocations: AllocationItem[] = CHAIN_CONFIGS.map(config => ({
+        const fallbackAllocations: AllocationItem[] = getChains().filter(chain => chain.tracked).map(config => ({
+          chainId: config.id,
           name: config.name,
-          icon: PROTOCOL_ICONS[config.name.toLowerCase()] || '/Chain=ETH.svg',
-          apy: calculateEstimatedAPY(config.name),
+          icon: config.icon,
+          apy: null,
           allocation: 0,
-          color: PROTOCOL_COLORS[config.name.toLowerCase()] || '#666666'
+          color: config.color,
+          balance: BigInt(0),
+          agentBalance: null,
+          targetAllocation: null,
+          discrepancy: null,
+          flagged: false
         }));
         setAllocations(fallbackAllocations);
         setTotalValue(0);
+        setInFlight(BigInt(0));
+        setAgentAvailable(false);
       } finally {
         setIsLoading(false);
       }
@@ -241,6 +233,8 @@ export const useAllocationData = () => {
   return {
     allocations,
     totalValue,
+    inFlight,
+    agentAvailable,
     isLoading,
     error
   };
@@ -4,11 +4,12 @@ import { useMemo } from 'react';
 import { useNearWallet } from '@/contexts/NearWalletContext';
 import { createNearContract, NearContract } from '@/utils/nearContract';
 
-export const useNearContract = (contractId?: string): NearContract | null => {
+// Null contractId: no contract is configured for this network, so there is nothing to call
+export const useNearContract = (contractId?: string | null): NearContract | null => {
   const { selector } = useNearWallet();
 
   const contract = useMemo(() => {
-    if (!selector) return null;
+    if (!selector || contractId === null) return null;
     return createNearContract(selector, contractId);
   }, [selector, contractId]);
 
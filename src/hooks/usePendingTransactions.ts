@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Hex } from 'viem';
+import { createNearContractReader } from '@/utils/nearContract';
+import type { DecodedSignedTransaction } from '@/utils/signedTransactions';
+import {
+  broadcastSignedTransaction,
+  checkBroadcastStatus,
+  compareChains,
+  type BroadcastStatus,
+} from '@/utils/pendingTransactions';
+
+export type PendingTxPhase = 'checking' | 'broadcasting' | 'idle';
+
+export interface PendingTxState {
+  tx: DecodedSignedTransaction;
+  phase: PendingTxPhase;
+  status: BroadcastStatus | null; // null until the first check finished
+  blockNumber?: bigint;
+  broadcastHash?: Hex;
+  error?: string;
+}
+
+export interface PendingTxGroup {
+  chainId: number | undefined;
+  transactions: PendingTxState[];
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+
+// Pending agent-signed transactions grouped by target chain, with on-chain status and a broadcast action
+export const usePendingTransactions = () => {
+  const [states, setStates] = useState<Record<string, PendingTxState>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateState = useCallback((hash: Hex, update: Partial<PendingTxState>) => {
+    setStates(prev => prev[hash] ? { ...prev, [hash]: { ...prev[hash], ...update } } : prev);
+  }, []);
+
+  const check = useCallback(async (tx: DecodedSignedTransaction) => {
+    updateState(tx.hash, { phase: 'checking', error: undefined });
+    try {
+      const { status, blockNumber, error: checkError } = await checkBroadcastStatus(tx);
+      updateState(tx.hash, { phase: 'idle', status, blockNumber, error: checkError && `Status unknown, RPC error: ${checkError}` });
+    } catch (err) {
+      console.error(`❌ Status check failed for ${tx.hash}:`, err);
+      updateState(tx.hash, { phase: 'idle', error: `Status check failed: ${errorMessage(err)}` });
+    }
+  }, [updateState]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const transactions = await createNearContractReader().getPendingEthereumTransactions();
+      setStates(Object.fromEntries(transactions.map(tx => [
+        tx.hash,
+        { tx, phase: 'checking' as const, status: null },
+      ])));
+      await Promise.all(transactions.map(check));
+    } catch (err) {
+      console.error('❌ Failed to load pending transactions:', err);
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [check]);
+
+  const broadcast = useCallback(async (tx: DecodedSignedTransaction) => {
+    updateState(tx.hash, { phase: 'broadcasting', error: undefined });
+    try {
+      const hash = await broadcastSignedTransaction(tx);
+      console.log(`🚀 Broadcast ${hash} on chain ${tx.chainId}`);
+      updateState(tx.hash, { phase: 'idle', status: 'in_mempool', broadcastHash: hash });
+    } catch (err) {
+      console.error(`❌ Broadcast failed for ${tx.hash}:`, err);
+      // The node may have rejected it because it is already known or the nonce moved on
+      await check(tx);
+      updateState(tx.hash, { error: `Broadcast failed: ${errorMessage(err)}` });
+    }
+  }, [updateState, check]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const groups = useMemo<PendingTxGroup[]>(() => {
+    const byChain = new Map<number | undefined, PendingTxState[]>();
+    for (const state of Object.values(states)) {
+      const list = byChain.get(state.tx.chainId) ?? [];
+      list.push(state);
+      byChain.set(state.tx.chainId, list);
+    }
+    return Array.from(byChain.entries())
+      .sort(([a], [b]) => compareChains(a, b))
+      .map(([chainId, transactions]) => ({
+        chainId,
+        transactions: transactions.sort((a, b) => (a.tx.nonce ?? 0) - (b.tx.nonce ?? 0)),
+      }));
+  }, [states]);
+
+  return { groups, isLoading, error, refresh, check, broadcast };
+};
@@ -2,9 +2,11 @@
 
 
 import { useQuery, gql } from '@apollo/client';
-import { useAccount, useReadContract } from 'wagmi';
-import { formatUnits } from 'viem';
-import { AAVE_VAULT_ABI, getContractAddress } from '@/utils/contracts';
+import { sharesToAssets, mulDiv, toAmount, toDisplayNumber, SHARE_DECIMALS, USDC_DECIMALS } from '@/lib/amount';
+import { getChainBySlug } from '@/constants/chains';
+import { useSupplyApy } from '@/hooks/useSupplyApy';
+import { useVaultState } from '@/hooks/useVaultState';
+import { apyToDailyRate, FALLBACK_SUPPLY_APY } from '@/utils/aaveRates';
 
 // GraphQL queries  
 const GET_CHAIN_DATA = gql`
@@ -127,50 +129,13 @@ export function usePerformanceData() {
   const days = 30;
   const chainName = 'arbitrumSepolia'; // Use the actual chain name as stored in database
   
-  // Get user account info
-  const { address, chainId } = useAccount();
-  
-  // Get contract address for current chain
-  const contractAddress = chainId ? (() => {
-    try {
-      return getContractAddress(chainId);
-    } catch {
-      return null;
-    }
-  })() : null;
-
-  // Read user's vault share balance
-  const { data: userShareBalance, refetch: refetchUserShareBalance } = useReadContract({
-    address: contractAddress as `0x${string}` | undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: {
-      enabled: !!address && !!contractAddress,
-    },
-  });
-
-  // Read total assets directly from contract for accurate calculation
-  const { data: contractTotalAssets, refetch: refetchContractTotalAssets } = useReadContract({
-    address: contractAddress as `0x${string}` | undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'totalAssets',
-    query: {
-      enabled: !!contractAddress,
-    },
-  });
-
-  // Read total supply for accurate share price calculation
-  const { data: contractTotalSupply, refetch: refetchContractTotalSupply } = useReadContract({
-    address: contractAddress as `0x${string}` | undefined,
-    abi: AAVE_VAULT_ABI,
-    functionName: 'totalSupply',
-    query: {
-      enabled: !!contractAddress,
-    },
-  });
-
-
+  // User shares and vault totals for the connected chain, from the same multicall as the balance panel
+  const {
+    shares: userShareBalance,
+    totalAssets: contractTotalAssets,
+    totalSupply: contractTotalSupply,
+    refetch: refetchVaultState,
+  } = useVaultState();
 
   // Query vault share price history (our real performance)
   const { data: sharePriceResult, loading: sharePriceLoading, error: sharePriceError } = useQuery(
@@ -213,9 +178,10 @@ export function usePerformanceData() {
   const chainData: ChainData[] = chainResult?.allChainData || [];
   const backendPerformanceData: PerformanceDataPoint[] = performanceResult?.historicalPerformance || [];
 
-  // Get AAVE APY for baseline calculations
-  const aaveAPY = chainData.find(c => c.chainName === chainName)?.aavePool?.supplyAPY || 4.5;
-  const dailyBaselineRate = aaveAPY / 100 / 365;
+  // Get AAVE APY for baseline calculations - live from the Pool, then the backend's figure
+  const { apy: liveAaveAPY } = useSupplyApy(getChainBySlug(chainName)?.id);
+  const aaveAPY = liveAaveAPY ?? (chainData.find(c => c.chainName === chainName)?.aavePool?.supplyAPY || FALLBACK_SUPPLY_APY);
+  const dailyBaselineRate = apyToDailyRate(aaveAPY);
   
   // Generate performance comparison data - prefer backend data, fallback to vault data
   const performanceData: VaultPerformancePoint[] = (() => {
@@ -260,11 +226,8 @@ export function usePerformanceData() {
     // Priority 2: Use share price history if available
     if (sharePriceHistory.length > 0) {
       console.log('📊 Using share price history:', sharePriceHistory.length, 'days');
-      const baselineAPY = chainData.find(c => c.chainName === chainName)?.aavePool?.supplyAPY || 3.3;
-      const dailyRate = baselineAPY / 100 / 365;
-      
       return sharePriceHistory.map((point, index) => {
-        const baselineValue = Math.pow(1 + dailyRate, index);
+        const baselineValue = Math.pow(1 + dailyBaselineRate, index);
         const differential = point.sharePrice - baselineValue;
         const differentialPercentage = (differential / baselineValue) * 100;
         
@@ -317,25 +280,22 @@ export function usePerformanceData() {
 
   // Calculate user's personal vault value based on their shares
   // ERC4626 shares typically have the same decimals as the underlying asset (6 for USDC)
-  const userShares = userShareBalance ? Number(formatUnits(userShareBalance as bigint, 6)) : 0;
-  const totalAssetValue = contractTotalAssets ? Number(formatUnits(contractTotalAssets as bigint, 6)) : 0;
-  const totalSupplyValue = contractTotalSupply ? Number(formatUnits(contractTotalSupply as bigint, 6)) : 0;
+  const userShareRaw = userShareBalance ?? BigInt(0);
+  const totalAssetsRaw = contractTotalAssets ?? BigInt(0);
+  const totalSupplyRaw = contractTotalSupply ?? BigInt(0);
+  const userShares = toDisplayNumber(toAmount(userShareRaw, SHARE_DECIMALS));
   
-  // Calculate user's vault value using on-chain data (most accurate)
-  // ERC4626 formula: userAssets = (userShares * totalAssets) / totalSupply
-  let userVaultValue = 0;
-  let sharePrice = 1.0;
+  // Calculate user's vault value in base units using on-chain data (most accurate)
+  // ERC4626 formula: userAssets = (userShares * totalAssets) / totalSupply, 1:1 while data is loading
+  const userVaultAssets = totalAssetsRaw > BigInt(0) && totalSupplyRaw > BigInt(0)
+    ? sharesToAssets(userShareRaw, totalAssetsRaw, totalSupplyRaw)
+    : userShareRaw;
+  const userVaultValue = toDisplayNumber(toAmount(userVaultAssets, USDC_DECIMALS));
   
-  if (userShares > 0 && totalAssetValue > 0 && totalSupplyValue > 0) {
-    // Calculate from on-chain data - this is the source of truth
-    userVaultValue = (userShares * totalAssetValue) / totalSupplyValue;
-    sharePrice = totalAssetValue / totalSupplyValue;
-    console.log('💰 On-chain vault value:', userVaultValue, 'USDC (', userShares, 'shares,', totalAssetValue, 'totalAssets,', totalSupplyValue, 'totalSupply)');
-  } else if (userShares > 0) {
-    // Fallback: assume 1:1 ratio for new vaults or when data is loading
-    userVaultValue = userShares;
-    console.log('💰 Fallback vault value (1:1):', userVaultValue, 'USDC');
-  }
+  // Assets per whole share, kept at asset precision until converted for display
+  const sharePrice = totalSupplyRaw > BigInt(0)
+    ? toDisplayNumber(toAmount(mulDiv(totalAssetsRaw, BigInt(10) ** BigInt(SHARE_DECIMALS), totalSupplyRaw), USDC_DECIMALS))
+    : 1.0;
   
   // Only use backend/historical data for charting, NOT for user balance display
   // The sharePrice from backend is for performance tracking, not current value
@@ -344,16 +304,15 @@ export function usePerformanceData() {
   let totalVaultValue = 0;
   if (contractTotalAssets) {
     // On-chain is source of truth
-    totalVaultValue = Number(formatUnits(contractTotalAssets as bigint, 6));
+    totalVaultValue = toDisplayNumber(toAmount(contractTotalAssets, USDC_DECIMALS));
   } else if (vaultData && vaultData.totalAssets) {
     // Fallback to backend if contract data not available
     totalVaultValue = parseFloat(vaultData.totalAssets);
   }
   
   // Gains - calculate based on realistic APY, not anomalous share price changes
-  // The AAVE APY is ~4-5%, so daily gain should be tiny (APY / 365)
-  const currentApyDecimal = aaveAPY / 100; // e.g., 4.47% -> 0.0447
-  const dailyRate = currentApyDecimal / 365; // Daily rate, e.g., 0.000122
+  // The AAVE APY is ~4-5%, so daily gain should be tiny (e.g. 4.47% -> 0.000120)
+  const dailyRate = dailyBaselineRate;
   
   // Calculate realistic daily gains based on current APY
   const vaultGains = totalVaultValue * dailyRate; // Realistic daily gain
@@ -401,9 +360,7 @@ export function usePerformanceData() {
   const refetchVaultBalance = async () => {
     console.log('🔄 Refetching vault balance data...');
     await Promise.all([
-      refetchUserShareBalance(),
-      refetchContractTotalAssets(),
-      refetchContractTotalSupply(),
+      refetchVaultState(),
       refetchVaultData()
     ]);
     console.log('✅ Vault balance data refreshed');
@@ -428,13 +385,14 @@ export function usePerformanceData() {
     // Summary values
     // User-centric values (backward compatible names)
     totalValue: userVaultValue,
+    userVaultAssets, // Same value in USDC base units, for balance math
     totalGains: userGains,
     // Vault totals
     totalVaultValue,
     vaultGains,
     sharePrice,
     dailyGainRate: dailyRate,
-    currentApy: currentApyDecimal, // Use actual AAVE APY
+    currentApy: aaveAPY / 100, // Live AAVE supply APY as a decimal
     
     // Controls
     days,
@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ActivityLog } from '@/utils/nearContract';
+import { correlateActivityLog, type RebalanceCorrelation } from '@/utils/rebalanceCorrelation';
+
+// Per-rebalance timelines keyed by log nonce; complete correlations are not fetched again
+export const useRebalanceCorrelation = (logs: ActivityLog[]) => {
+  const [correlations, setCorrelations] = useState<Record<number, RebalanceCorrelation>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const completeRef = useRef(new Set<number>());
+
+  useEffect(() => {
+    let cancelled = false;
+    const pending = logs.filter(log => !completeRef.current.has(log.nonce));
+    if (pending.length === 0) return;
+
+    setIsLoading(true);
+    Promise.allSettled(pending.map(correlateActivityLog))
+      .then(results => {
+        if (cancelled) return;
+        const next: Record<number, RebalanceCorrelation> = {};
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            next[result.value.nonce] = result.value;
+            if (result.value.complete) completeRef.current.add(result.value.nonce);
+          } else {
+            console.error(`❌ Failed to correlate activity log ${pending[index].nonce}:`, result.reason);
+          }
+        });
+        setCorrelations(prev => ({ ...prev, ...next }));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [logs]);
+
+  return { correlations, isLoading };
+};
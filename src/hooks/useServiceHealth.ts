@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { checkOracleHealth } from '@/utils/oracleClient';
+import { checkGraphQLHealth } from '@/lib/apollo-client';
+import { checkNearRpcHealth } from '@/utils/nearContract';
+
+export type ServiceStatus = 'checking' | 'up' | 'down';
+
+export interface ServiceHealth {
+  oracle: ServiceStatus;
+  graphql: ServiceStatus;
+  nearRpc: ServiceStatus;
+  lastChecked: Date | null;
+}
+
+export type ServiceHealthState = ServiceHealth & { refresh: () => Promise<void> };
+
+const POLL_INTERVAL_MS = 30000;
+
+const toStatus = (healthy: boolean): ServiceStatus => (healthy ? 'up' : 'down');
+
+// Polls the services deposits depend on: signing oracle, GraphQL backend and NEAR RPC
+export const useServiceHealth = (intervalMs: number = POLL_INTERVAL_MS): ServiceHealthState => {
+  const [health, setHealth] = useState<ServiceHealth>({
+    oracle: 'checking',
+    graphql: 'checking',
+    nearRpc: 'checking',
+    lastChecked: null,
+  });
+
+  const refresh = useCallback(async () => {
+    const [oracle, graphql, nearRpc] = await Promise.all([
+      checkOracleHealth(),
+      checkGraphQLHealth(),
+      checkNearRpcHealth(),
+    ]);
+    setHealth({
+      oracle: toStatus(oracle),
+      graphql: toStatus(graphql),
+      nearRpc: toStatus(nearRpc),
+      lastChecked: new Date(),
+    });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, intervalMs);
+    return () => clearInterval(interval);
+  }, [refresh, intervalMs]);
+
+  return { ...health, refresh };
+};
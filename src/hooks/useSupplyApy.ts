@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupplyRate } from '@/utils/aaveRates';
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// Live Aave USDC supply APY (percent) for a chain, null until read or when the Pool is unavailable
+export const useSupplyApy = (chainId: number | undefined) => {
+  const [apy, setApy] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (chainId === undefined) {
+      setApy(null);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      const rate = await getSupplyRate(chainId);
+      if (cancelled) return;
+      setApy(rate?.apy ?? null);
+      setIsLoading(false);
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [chainId]);
+
+  return { apy, isLoading };
+};
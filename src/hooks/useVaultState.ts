@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useAccount, useReadContracts } from 'wagmi';
+import { getVaultStateContracts, parseVaultState, type VaultState } from '@/utils/vaultReads';
+
+// Connected chain's vault state and the user's position, read in one multicall
+export const useVaultState = () => {
+  const { address, chainId } = useAccount();
+
+  const contracts = useMemo(
+    () => (chainId ? getVaultStateContracts(chainId, address) : null),
+    [chainId, address]
+  );
+
+  const { data, isLoading, refetch: refetchContracts } = useReadContracts({
+    contracts: contracts ?? [],
+    allowFailure: true,
+    query: { enabled: !!contracts },
+  });
+
+  const state = useMemo(() => parseVaultState(chainId ?? 0, data), [chainId, data]);
+
+  // Resolves with the fresh state so callers can act on it without waiting for a re-render
+  const refetch = useCallback(async (): Promise<VaultState> => {
+    const result = await refetchContracts();
+    return parseVaultState(chainId ?? 0, result.data);
+  }, [refetchContracts, chainId]);
+
+  return { ...state, isLoading, refetch };
+};
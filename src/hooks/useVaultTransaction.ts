@@ -0,0 +1,282 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import type { Hash, ReplacementReason } from 'viem';
+import { useAccount, useConfig, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { priceVaultRequest, simulateVaultRequest, type VaultTxSimulation, type VaultWriteRequest } from '@/utils/vaultTransactions';
+import { useTransactionStatus } from '@/contexts/TransactionStatusContext';
+import {
+  isWalletSimulationError,
+  parseVaultTxError,
+  TransactionReplacedError,
+  TransactionRevertedError,
+  type VaultTxError,
+} from '@/utils/vaultTxErrors';
+
+/**
+ * Vault transaction lifecycle:
+ *
+ *   idle → quoting → approving → simulating → signing → submitted → confirmed
+ *   idle → quoting → simulating → reviewing → (approving → simulating) → signing → submitted → confirmed
+ *                                                                                  ↘ failed (from any step)
+ *
+ * quoting    - checks that must pass before any wallet prompt (oracle health)
+ * approving  - approval transaction, skipped when allowance covers it
+ * simulating - the transaction is built (oracle snapshot) and dry-run, so reverts surface before the wallet opens
+ * reviewing  - plans with `review` wait here with the simulation until confirm(). The review comes
+ *              before any wallet prompt, so its fee covers the approval too; the main call is only
+ *              priced at its fixed gas limit then and simulated once the approval confirms
+ * signing    - waiting for the wallet
+ * submitted  - broadcast, waiting for the receipt. A speed-up from the wallet is followed to its
+ *              new hash; a cancellation or other same-nonce replacement fails the run
+ *
+ * Sent transactions are listed as pending in TransactionStatusContext until mined, so they
+ * survive a reload and can be sped up or cancelled from the pending tray.
+ */
+export type VaultTxPhase =
+  | 'idle'
+  | 'quoting'
+  | 'approving'
+  | 'simulating'
+  | 'reviewing'
+  | 'signing'
+  | 'submitted'
+  | 'confirmed'
+  | 'failed';
+
+export type VaultTxKind = 'deposit' | 'withdraw' | 'approve';
+
+export interface VaultTxPlan {
+  kind: VaultTxKind;
+  quote?: () => Promise<void>; // Throw to stop before the wallet is involved
+  // Approval to send first, null when the allowance already covers it
+  approval?: () => Promise<VaultWriteRequest | null>;
+  // Approval to price in the review, built without any wallet prompt. Reviewed plans only run
+  // `approval` when this returns one
+  approvalPreview?: () => Promise<VaultWriteRequest | null>;
+  // Whether the allowance is in place after the wallet reported an approval failure
+  verifyApproval?: () => Promise<boolean>;
+  request: () => Promise<VaultWriteRequest>;
+  review?: boolean; // Pause in 'reviewing' so the UI can show the simulation and fee before any wallet prompt
+  onApproved?: (hash: Hash | undefined) => void;
+  onConfirmed?: (hash: Hash) => void;
+  onFailed?: (error: VaultTxError, hash: Hash | undefined) => void;
+}
+
+export interface VaultTxState {
+  phase: VaultTxPhase;
+  kind: VaultTxKind | null;
+  chainId?: number;
+  approvalHash?: Hash;
+  hash?: Hash;
+  simulation: VaultTxSimulation | null; // Expected result, gas and (for reviewed plans) fee of the main transaction
+  error: VaultTxError | null;
+}
+
+const IDLE_STATE: VaultTxState = { phase: 'idle', kind: null, simulation: null, error: null };
+
+const KIND_LABELS: Record<VaultTxKind, string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdrawal',
+  approve: 'Approval',
+};
+
+// Phases with a run in progress; 'reviewing' is waiting on the user, not busy
+const BUSY_PHASES: VaultTxPhase[] = ['quoting', 'approving', 'simulating', 'signing', 'submitted'];
+
+// Single owner of the write/receipt lifecycle for deposit, withdraw and approve UIs
+export const useVaultTransaction = () => {
+  const { address, chainId } = useAccount();
+  const config = useConfig();
+  const { writeContractAsync } = useWriteContract();
+  const { trackPendingTransaction, updatePendingTransaction, resolvePendingTransaction } = useTransactionStatus();
+  const [state, setState] = useState<VaultTxState>(IDLE_STATE);
+
+  // Each run gets an id; a cancelled or superseded run stops updating state
+  const runIdRef = useRef(0);
+  const planRef = useRef<VaultTxPlan | null>(null);
+  // Approval confirmed in an earlier attempt of the current plan, so retry skips it
+  const approvedRef = useRef(false);
+  // Resolves the review pause: true to send, false when cancelled
+  const reviewRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const run = useCallback(async (plan: VaultTxPlan) => {
+    const runId = ++runIdRef.current;
+    reviewRef.current?.(false); // A run waiting on review is superseded
+    reviewRef.current = null;
+    const isCurrent = () => runIdRef.current === runId;
+    const txChainId = chainId;
+    const account = address;
+
+    let phase = 'quoting' as VaultTxPhase; // Assigned from update(), read when labelling a failure
+    let pendingHash: Hash | undefined;
+    const update = (next: VaultTxPhase, patch: Partial<VaultTxState> = {}) => {
+      phase = next;
+      if (isCurrent()) setState(prev => ({ ...prev, ...patch, phase: next }));
+    };
+
+    /**
+     * Wait for `hash` to be mined, following wallet speed-ups to the replacement hash
+     * (kept in `field`). Resolves with the hash that was mined.
+     */
+    const confirmTransaction = async (hash: Hash, label: string, field: 'approvalHash' | 'hash'): Promise<Hash> => {
+      if (!account || !txChainId) throw new Error('Wallet not connected');
+      let latest = hash;
+      let replacedReason = undefined as ReplacementReason | undefined;
+      trackPendingTransaction({ hash, chainId: txChainId, from: account, label, watched: true });
+
+      const receipt = await waitForTransactionReceipt(config, {
+        hash,
+        chainId: txChainId,
+        onReplaced: ({ reason, transaction }) => {
+          console.log(`🔁 ${label} transaction ${reason}:`, transaction.hash);
+          updatePendingTransaction(latest, { hash: transaction.hash });
+          latest = transaction.hash;
+          replacedReason = reason;
+          if (reason === 'repriced' && isCurrent()) setState(prev => ({ ...prev, [field]: latest }));
+        },
+      }).catch((error: unknown) => {
+        // Outcome unknown (e.g. the wait timed out), leave it to the pending tray
+        updatePendingTransaction(latest, { watched: false });
+        throw error;
+      });
+      resolvePendingTransaction(latest);
+
+      if (replacedReason && replacedReason !== 'repriced') throw new TransactionReplacedError(hash, latest, replacedReason);
+      if (receipt.status === 'reverted') throw new TransactionRevertedError(latest);
+      return latest;
+    };
+
+    setState({ ...IDLE_STATE, phase, kind: plan.kind, chainId: txChainId });
+
+    try {
+      if (!account || !txChainId) throw new Error('Wallet not connected');
+
+      await plan.quote?.();
+      if (!isCurrent()) return;
+
+      // Reviewed plans are priced before any wallet prompt, approval included
+      let reviewed: { request: VaultWriteRequest; simulation: VaultTxSimulation } | null = null;
+      let needsApproval = !!plan.approval && !approvedRef.current;
+      if (plan.review) {
+        update('simulating');
+        const approvalPreview = needsApproval ? (await plan.approvalPreview?.()) ?? null : null;
+        if (!isCurrent()) return;
+        needsApproval = approvalPreview !== null;
+
+        let simulation: VaultTxSimulation;
+        if (approvalPreview) {
+          const [{ simulation: approvalSimulation }, mainSimulation] = await Promise.all([
+            simulateVaultRequest(txChainId, account, approvalPreview, { estimateFee: true }),
+            plan.request().then(request => priceVaultRequest(txChainId, account, request)),
+          ]);
+          simulation = { ...mainSimulation, approvalFee: approvalSimulation.fee };
+        } else {
+          // Nothing to approve: the simulated request is sent as reviewed
+          reviewed = await simulateVaultRequest(txChainId, account, await plan.request(), { estimateFee: true });
+          simulation = reviewed.simulation;
+        }
+        if (!isCurrent()) return;
+
+        update('reviewing', { simulation });
+        const confirmed = await new Promise<boolean>(resolve => { reviewRef.current = resolve; });
+        if (!confirmed || !isCurrent()) return;
+      }
+
+      if (plan.approval && needsApproval) {
+        update('approving');
+        const approval = await plan.approval();
+        if (!isCurrent()) return;
+
+        if (approval) {
+          const { request: approvalRequest } = await simulateVaultRequest(txChainId, account, approval);
+          if (!isCurrent()) return;
+          try {
+            pendingHash = await writeContractAsync({ ...approvalRequest, chainId: txChainId });
+            update('approving', { approvalHash: pendingHash });
+            pendingHash = await confirmTransaction(pendingHash, KIND_LABELS.approve, 'approvalHash');
+          } catch (error) {
+            // MetaMask can report a failed simulation for an approval that went through
+            if (!isWalletSimulationError(error) || !plan.verifyApproval || !(await plan.verifyApproval())) throw error;
+            console.log('✅ Approval succeeded despite wallet error');
+          }
+          if (!isCurrent()) return;
+          approvedRef.current = true;
+          console.log('✅ Approval confirmed on-chain');
+          plan.onApproved?.(pendingHash);
+          pendingHash = undefined;
+        }
+      }
+
+      let request: VaultWriteRequest;
+      let simulation: VaultTxSimulation;
+      if (reviewed) {
+        ({ request, simulation } = reviewed);
+      } else {
+        // Built (again, for a reviewed plan) once the allowance is in place, so the dry-run can pass
+        update('simulating');
+        ({ request, simulation } = await simulateVaultRequest(txChainId, account, await plan.request(), { estimateFee: plan.review }));
+        if (!isCurrent()) return;
+      }
+
+      update('signing', { simulation });
+      // Pinned to the chain the run was simulated on, so a wallet that switched since rejects it instead of sending elsewhere
+      pendingHash = await writeContractAsync({ ...request, chainId: txChainId });
+      update('submitted', { hash: pendingHash });
+      console.log(`📝 ${KIND_LABELS[plan.kind]} transaction submitted, waiting for confirmation...`);
+
+      // Waited on even when the run was cancelled, so the pending entry resolves
+      pendingHash = await confirmTransaction(pendingHash, KIND_LABELS[plan.kind], 'hash');
+      if (!isCurrent()) return;
+
+      approvedRef.current = false;
+      update('confirmed');
+      console.log(`✅ ${KIND_LABELS[plan.kind]} confirmed on-chain`);
+      plan.onConfirmed?.(pendingHash);
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error(`❌ ${KIND_LABELS[plan.kind]} failed during ${phase}:`, error);
+      const txError = parseVaultTxError(error, phase === 'approving' ? KIND_LABELS.approve : KIND_LABELS[plan.kind]);
+      update('failed', { error: txError });
+      plan.onFailed?.(txError, pendingHash);
+    }
+  }, [address, chainId, config, writeContractAsync, trackPendingTransaction, updatePendingTransaction, resolvePendingTransaction]);
+
+  const start = useCallback((plan: VaultTxPlan) => {
+    planRef.current = plan;
+    approvedRef.current = false;
+    return run(plan);
+  }, [run]);
+
+  // Re-run the last plan, skipping an approval that already confirmed
+  const retry = useCallback(() => {
+    if (!planRef.current) return Promise.resolve();
+    return run(planRef.current);
+  }, [run]);
+
+  // Send the reviewed transaction
+  const confirm = useCallback(() => {
+    reviewRef.current?.(true);
+    reviewRef.current = null;
+  }, []);
+
+  // Back to idle, abandoning a run in progress (a wallet prompt that is already open stays open)
+  const cancel = useCallback(() => {
+    runIdRef.current++;
+    reviewRef.current?.(false);
+    reviewRef.current = null;
+    planRef.current = null;
+    approvedRef.current = false;
+    setState(IDLE_STATE);
+  }, []);
+
+  return {
+    ...state,
+    isBusy: BUSY_PHASES.includes(state.phase),
+    start,
+    confirm,
+    retry,
+    cancel,
+  };
+};
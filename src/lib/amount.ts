@@ -0,0 +1,151 @@
+import { parseUnits } from 'viem';
+
+/**
+ * Fixed-point token amounts. Values stay bigint in base units from the chain
+ * (or NEAR u128 strings) to the display string; convert to a JS number only
+ * for charts and percentages, via toDisplayNumber.
+ */
+
+export const USDC_DECIMALS = 6;
+export const SHARE_DECIMALS = 6; // Vault shares use the underlying's decimals
+
+export interface FixedAmount {
+  readonly raw: bigint;     // Base units
+  readonly decimals: number;
+}
+
+export interface FormatAmountOptions {
+  maxFractionDigits?: number; // Rounded half-up (default: all decimals)
+  minFractionDigits?: number; // Pads with zeros (default 0)
+  locale?: string;            // Group and decimal separators (default: the user's locale)
+  grouping?: boolean;         // Thousands separators (default true)
+}
+
+const TEN = BigInt(10);
+const ZERO = BigInt(0);
+
+const pow10 = (exponent: number) => TEN ** BigInt(exponent);
+
+// Base-unit value (bigint, integer string such as a NEAR u128, or safe integer) with its decimals
+export const toAmount = (raw: bigint | string | number, decimals: number = USDC_DECIMALS): FixedAmount => {
+  if (typeof raw === 'number' && !Number.isSafeInteger(raw)) {
+    throw new Error(`Amount ${raw} is not a safe integer, pass it as a string`);
+  }
+  if (typeof raw === 'string' && !/^-?\d+$/.test(raw.trim())) {
+    throw new Error(`Amount "${raw}" is not an integer`);
+  }
+  return { raw: BigInt(typeof raw === 'string' ? raw.trim() : raw), decimals };
+};
+
+// Like toAmount, but null for missing or malformed values
+export const tryToAmount = (raw: unknown, decimals: number = USDC_DECIMALS): FixedAmount | null => {
+  if (typeof raw !== 'bigint' && typeof raw !== 'string' && typeof raw !== 'number') return null;
+  try {
+    return toAmount(raw, decimals);
+  } catch {
+    return null;
+  }
+};
+
+const localeSeparators = (locale?: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(11111.1);
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parse user input ("1,234.56", or "1.234,56" for de-DE) into base units.
+ * Group separators (the locale's, or spaces) are only accepted between
+ * thousands of the integer part, so a de-DE "0.1" is rejected instead of read
+ * as 1. Returns null for malformed input or more fraction digits than
+ * `decimals`, rather than silently truncating.
+ */
+export const parseAmount = (input: string, decimals: number = USDC_DECIMALS, locale?: string): FixedAmount | null => {
+  const { group, decimal } = localeSeparators(locale);
+  const [integer, fraction, ...rest] = input.trim().split(decimal);
+  if (rest.length > 0) return null;
+
+  const groups = integer.split(new RegExp(`[${escapeRegExp(group)}\\s]`));
+  const grouped = groups.length === 1 || (/^\d{1,3}$/.test(groups[0]) && groups.slice(1).every(part => /^\d{3}$/.test(part)));
+  if (!grouped) return null;
+
+  const normalized = fraction === undefined ? groups.join('') : `${groups.join('')}.${fraction}`;
+  if (!/^\d*\.?\d*$/.test(normalized) || normalized === '' || normalized === '.') return null;
+  if ((fraction ?? '').length > decimals) return null;
+
+  return { raw: parseUnits(normalized, decimals), decimals };
+};
+
+/**
+ * Format without going through floating point. Rounds half-up to
+ * `maxFractionDigits` and uses the locale's separators.
+ */
+export const formatAmount = (amount: FixedAmount, options: FormatAmountOptions = {}): string => {
+  const { decimals } = amount;
+  const maxFractionDigits = Math.min(options.maxFractionDigits ?? decimals, decimals);
+  const minFractionDigits = Math.min(options.minFractionDigits ?? 0, maxFractionDigits);
+
+  const negative = amount.raw < ZERO;
+  let raw = negative ? -amount.raw : amount.raw;
+
+  // Round half-up at the requested precision
+  const dropped = decimals - maxFractionDigits;
+  if (dropped > 0) {
+    const unit = pow10(dropped);
+    raw = (raw + unit / BigInt(2)) / unit;
+  }
+
+  const base = pow10(maxFractionDigits);
+  const integer = raw / base;
+  let fraction = maxFractionDigits > 0 ? (raw % base).toString().padStart(maxFractionDigits, '0') : '';
+  fraction = fraction.replace(/0+$/, '').padEnd(minFractionDigits, '0');
+
+  const { decimal } = localeSeparators(options.locale);
+  const integerText = options.grouping === false
+    ? integer.toString()
+    : integer.toLocaleString(options.locale);
+
+  const sign = negative && (integer > ZERO || /[1-9]/.test(fraction)) ? '-' : '';
+  return `${sign}${integerText}${fraction ? `${decimal}${fraction}` : ''}`;
+};
+
+// Convenience for the most common case: USDC base units with 2 decimals
+export const formatUsdc = (raw: bigint | string, options: FormatAmountOptions = {}): string =>
+  formatAmount(toAmount(raw, USDC_DECIMALS), { maxFractionDigits: 2, minFractionDigits: 2, ...options });
+
+// Rescale to other decimals, truncating extra precision
+export const convertDecimals = (amount: FixedAmount, decimals: number): FixedAmount => {
+  if (decimals === amount.decimals) return amount;
+  const raw = decimals > amount.decimals
+    ? amount.raw * pow10(decimals - amount.decimals)
+    : amount.raw / pow10(amount.decimals - decimals);
+  return { raw, decimals };
+};
+
+// a * b / denominator without intermediate rounding, rounded down
+export const mulDiv = (a: bigint, b: bigint, denominator: bigint): bigint => {
+  if (denominator === ZERO) throw new Error('mulDiv: division by zero');
+  return (a * b) / denominator;
+};
+
+// ERC-4626 convertToAssets; 1:1 while the vault has no supply
+export const sharesToAssets = (shares: bigint, totalAssets: bigint, totalSupply: bigint): bigint =>
+  totalSupply > ZERO ? mulDiv(shares, totalAssets, totalSupply) : shares;
+
+// Share of `total` in percent with `precision` decimals, computed in bigint
+export const percentOf = (part: bigint, total: bigint, precision: number = 2): number => {
+  if (total <= ZERO) return 0;
+  const scale = pow10(precision);
+  return Number(mulDiv(part, BigInt(100) * scale, total)) / Number(scale);
+};
+
+/**
+ * Lossy conversion for charts, percentages and other float-only consumers.
+ * Not for balance math or anything sent back on chain.
+ */
+export const toDisplayNumber = (amount: FixedAmount): number =>
+  Number(formatAmount(amount, { grouping: false, locale: 'en-US' }));
@@ -0,0 +1,66 @@
+import { parseUnits } from 'viem';
+import { ApprovalPolicySchema, safeValidate, type ApprovalPolicy } from '@/lib/validation';
+
+const STORAGE_KEY_PREFIX = 'rebalancer_approval_policy';
+
+// type(uint256).max - what "unlimited" approvals grant
+export const MAX_UINT256 = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
+
+// Allowances this large are treated as unlimited when displayed
+export const UNLIMITED_ALLOWANCE_THRESHOLD = MAX_UINT256 / BigInt(2);
+
+// Exact-amount approvals by default, nothing is left approved after the deposit
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  mode: 'exact',
+  capAmount: '1000',
+};
+
+export const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy['mode'], string> = {
+  exact: 'Exact amount',
+  cap: 'Fixed cap',
+  unlimited: 'Unlimited',
+};
+
+const storageKey = (address: string) => `${STORAGE_KEY_PREFIX}_${address.toLowerCase()}`;
+
+// Load the wallet's saved policy, default policy if none is saved or it's invalid
+export const loadApprovalPolicy = (address?: string): ApprovalPolicy => {
+  if (typeof window === 'undefined' || !address) return DEFAULT_APPROVAL_POLICY;
+
+  try {
+    const stored = localStorage.getItem(storageKey(address));
+    if (!stored) return DEFAULT_APPROVAL_POLICY;
+
+    const validation = safeValidate(ApprovalPolicySchema, JSON.parse(stored));
+    return validation.success ? validation.data : DEFAULT_APPROVAL_POLICY;
+  } catch (error) {
+    console.error('Failed to load approval policy:', error);
+    return DEFAULT_APPROVAL_POLICY;
+  }
+};
+
+export const saveApprovalPolicy = (address: string, policy: ApprovalPolicy) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(storageKey(address), JSON.stringify(policy));
+  } catch (error) {
+    console.error('Failed to save approval policy:', error);
+  }
+};
+
+// Allowance to request for a deposit of `depositAmount` (USDC base units) under the policy
+export const getApprovalAmount = (policy: ApprovalPolicy, depositAmount: bigint): bigint => {
+  switch (policy.mode) {
+    case 'unlimited':
+      return MAX_UINT256;
+    case 'cap': {
+      // Never approve less than the deposit itself, or the deposit would revert
+      const cap = parseUnits(policy.capAmount, 6);
+      return cap > depositAmount ? cap : depositAmount;
+    }
+    case 'exact':
+    default:
+      return depositAmount;
+  }
+};
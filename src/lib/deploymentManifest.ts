@@ -0,0 +1,62 @@
+import { DeploymentManifestSchema, safeValidate, type DeploymentManifest } from '@/lib/validation';
+import { applyChainDeployments, type ChainDeployment } from '@/constants/chains';
+
+// Deployment environment, selects which manifest is loaded (e.g. testnet, localhost)
+export const DEPLOYMENT_ENV = process.env.NEXT_PUBLIC_DEPLOYMENT_ENV || 'testnet';
+
+// Manifest location - defaults to the JSON files shipped under public/deployments
+const MANIFEST_URL = process.env.NEXT_PUBLIC_DEPLOYMENT_MANIFEST_URL || `/deployments/${DEPLOYMENT_ENV}.json`;
+
+const MANIFEST_TIMEOUT_MS = 5000;
+
+export interface DeploymentInfo {
+  version: string;
+  environment: string;
+  source: 'manifest' | 'builtin';
+  error?: string; // Why the manifest could not be used, when falling back to built-in defaults
+}
+
+export const BUILTIN_DEPLOYMENT: DeploymentInfo = {
+  version: 'builtin',
+  environment: DEPLOYMENT_ENV,
+  source: 'builtin',
+};
+
+/**
+ * Load the deployment manifest and apply its addresses to the chain registry.
+ * Any failure (network, timeout, invalid JSON or schema) falls back to the
+ * built-in defaults compiled into src/constants/chains.ts.
+ */
+export async function loadDeploymentManifest(): Promise<DeploymentInfo> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), MANIFEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-store', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Manifest request failed: ${response.status}`);
+    }
+
+    const validation = safeValidate(DeploymentManifestSchema, await response.json());
+    if (!validation.success) {
+      throw new Error(`Invalid deployment manifest: ${validation.error}`);
+    }
+
+    const manifest: DeploymentManifest = validation.data;
+    applyChainDeployments(
+      Object.fromEntries(
+        Object.entries(manifest.chains).map(([chainId, deployment]) => [Number(chainId), deployment as ChainDeployment])
+      )
+    );
+
+    console.log(`📦 Loaded deployment manifest ${manifest.version} (${manifest.environment})`);
+    return { version: manifest.version, environment: manifest.environment, source: 'manifest' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`⚠️ Using built-in deployment defaults (${MANIFEST_URL}):`, message);
+    applyChainDeployments({});
+    return { ...BUILTIN_DEPLOYMENT, error: message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
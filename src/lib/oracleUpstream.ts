@@ -0,0 +1,86 @@
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, isRetryableStatus, type RetryPolicy } from '@/lib/retry';
+
+/**
+ * Server-side access to the oracle: a list of endpoints tried in order, with
+ * endpoints that recently failed skipped until their cooldown has passed.
+ * Only used by the /api/oracle route handlers.
+ *
+ *   ORACLE_URLS        comma-separated endpoints (falls back to ORACLE_URL)
+ *   ORACLE_TIMEOUT_MS  per-attempt timeout
+ *   ORACLE_RETRIES     attempts per endpoint
+ */
+
+// How long a failing endpoint is skipped before it is tried again
+const UNHEALTHY_COOLDOWN_MS = 30000;
+
+// Time budget for one callOracle across all endpoints and retries; browser timeouts are derived from it.
+// Attempt timeouts are capped at what is left of it, and nothing starts once it has passed
+export const ORACLE_ROUTE_DEADLINE_MS = 40000;
+
+const unhealthyUntil = new Map<string, number>();
+
+export const getOracleEndpoints = (): string[] => {
+  const urls = process.env.ORACLE_URLS || process.env.ORACLE_URL || 'http://localhost:3001';
+  return urls.split(',').map(url => url.trim().replace(/\/$/, '')).filter(Boolean);
+};
+
+export const getOracleRetryPolicy = (): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  timeoutMs: Number(process.env.ORACLE_TIMEOUT_MS) || DEFAULT_RETRY_POLICY.timeoutMs,
+  attempts: Number(process.env.ORACLE_RETRIES) || DEFAULT_RETRY_POLICY.attempts,
+});
+
+export const markOracleHealth = (endpoint: string, healthy: boolean) => {
+  if (healthy) {
+    unhealthyUntil.delete(endpoint);
+  } else {
+    unhealthyUntil.set(endpoint, Date.now() + UNHEALTHY_COOLDOWN_MS);
+  }
+};
+
+// Healthy endpoints first (in configured order), then those still cooling down as a last resort
+const orderedEndpoints = (): string[] => {
+  const now = Date.now();
+  const endpoints = getOracleEndpoints();
+  const healthy = endpoints.filter(endpoint => (unhealthyUntil.get(endpoint) ?? 0) <= now);
+  return [...healthy, ...endpoints.filter(endpoint => !healthy.includes(endpoint))];
+};
+
+export type OracleUpstreamResult =
+  | { ok: true; endpoint: string; response: Response }
+  | { ok: false; error: string };
+
+/**
+ * Call `path` on the first oracle endpoint that answers. 4xx responses are
+ * returned without failing over (the request itself was rejected); network
+ * errors, timeouts and 5xx after retries mark the endpoint unhealthy and move on.
+ */
+export async function callOracle(path: string, init: RequestInit = {}): Promise<OracleUpstreamResult> {
+  const policy = getOracleRetryPolicy();
+  const deadline = Date.now() + ORACLE_ROUTE_DEADLINE_MS;
+  const signal = AbortSignal.timeout(ORACLE_ROUTE_DEADLINE_MS);
+  const failures: string[] = [];
+
+  for (const endpoint of orderedEndpoints()) {
+    if (signal.aborted || Date.now() >= deadline) {
+      failures.push('deadline reached, remaining endpoints skipped');
+      break;
+    }
+
+    try {
+      const response = await fetchWithRetry(`${endpoint}${path}`, { ...init, cache: 'no-store', signal }, policy, deadline);
+      if (!isRetryableStatus(response.status)) {
+        markOracleHealth(endpoint, true);
+        return { ok: true, endpoint, response };
+      }
+      failures.push(`${endpoint}: ${response.status}`);
+    } catch (error) {
+      failures.push(`${endpoint}: ${error instanceof Error ? error.message : 'request failed'}`);
+    }
+
+    console.warn(`⚠️ Oracle endpoint ${endpoint} unavailable, failing over`);
+    markOracleHealth(endpoint, false);
+  }
+
+  return { ok: false, error: `All oracle endpoints unavailable (${failures.join('; ')})` };
+}
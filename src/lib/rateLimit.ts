@@ -0,0 +1,42 @@
+/**
+ * In-memory fixed-window rate limiter for route handlers.
+ * State lives in the server process, which is enough for the single
+ * standalone Next.js server this app is deployed as.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const windows = new Map<string, RateLimitWindow>();
+
+  // Drop expired windows so the map doesn't grow with every address ever seen
+  const prune = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return (key: string): RateLimitResult => {
+    const now = Date.now();
+    prune(now);
+
+    const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+    window.count++;
+    windows.set(key, window);
+
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+};
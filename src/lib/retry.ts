@@ -0,0 +1,78 @@
+/**
+ * Timeout + retry policy for outbound HTTP calls.
+ * Network errors, timeouts and 5xx responses are retried with exponential
+ * backoff and full jitter; 4xx responses are returned as-is.
+ */
+
+export interface RetryPolicy {
+  attempts: number;     // Total tries, including the first
+  timeoutMs: number;    // Per-attempt timeout
+  baseDelayMs: number;  // Backoff base, doubled every retry
+  maxDelayMs: number;   // Backoff ceiling
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  timeoutMs: 10000,
+  baseDelayMs: 300,
+  maxDelayMs: 3000,
+};
+
+// Full jitter: random delay between 0 and the exponential backoff for this retry
+export const backoffDelay = (retry: number, policy: RetryPolicy): number =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isRetryableStatus = (status: number) => status >= 500;
+
+/**
+ * fetch with a per-attempt timeout and retries. Resolves with the last
+ * response (which may still be a 5xx after the final attempt) and rejects
+ * only if every attempt failed at the network level or timed out.
+ *
+ * An abort of `init.signal` cancels the attempt in flight and any retries.
+ * With a `deadline` (epoch ms) each attempt's timeout is capped at the time
+ * left, and no attempt starts after it.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  deadline?: number
+): Promise<Response> {
+  let lastError: unknown;
+  const outerSignal = init.signal ?? undefined;
+  const remainingMs = () => (deadline === undefined ? policy.timeoutMs : deadline - Date.now());
+
+  for (let attempt = 0; attempt < policy.attempts; attempt++) {
+    if (attempt > 0) {
+      await sleep(Math.min(backoffDelay(attempt - 1, policy), Math.max(remainingMs(), 0)));
+    }
+    if (outerSignal?.aborted || remainingMs() <= 0) {
+      lastError ??= new Error(`Request to ${url} ran out of time`);
+      break;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    outerSignal?.addEventListener('abort', abort, { once: true });
+    const timeout = setTimeout(abort, Math.min(policy.timeoutMs, remainingMs()));
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (!isRetryableStatus(response.status) || attempt === policy.attempts - 1) {
+        return response;
+      }
+      console.warn(`⚠️ ${url} returned ${response.status}, retrying (${attempt + 1}/${policy.attempts})`);
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ ${url} request failed, retrying (${attempt + 1}/${policy.attempts}):`, error);
+    } finally {
+      clearTimeout(timeout);
+      outerSignal?.removeEventListener('abort', abort);
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`Request to ${url} failed`);
+}
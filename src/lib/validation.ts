@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { formatUnits, parseUnits } from 'viem';
+import { CHAIN_SLUGS, isVaultChain } from '@/constants/chains';
+import { parseAmount, USDC_DECIMALS } from '@/lib/amount';
 
 // Common validation helpers
 const EthereumAddress = z.string().regex(
@@ -6,30 +9,27 @@ const EthereumAddress = z.string().regex(
   'Invalid Ethereum address format'
 );
 
+// Amounts are USDC inputs, compared in base units so precision isn't lost to floating point
+const parseUsdcInput = (val: string) => parseAmount(val, USDC_DECIMALS, 'en-US');
+const MAX_AMOUNT = parseUnits('1000000000000', USDC_DECIMALS); // Reasonable upper limit to prevent overflow
+
 const PositiveAmount = z.string()
   .min(1, 'Amount is required')
   .refine(
     (val) => {
-      const num = parseFloat(val);
-      return !isNaN(num) && num > 0;
+      const parsed = parseUsdcInput(val);
+      return parsed !== null && parsed.raw > BigInt(0);
     },
     'Amount must be a positive number'
   )
   .refine(
-    (val) => {
-      const num = parseFloat(val);
-      return num <= 1e12; // Reasonable upper limit to prevent overflow
-    },
+    (val) => (parseUsdcInput(val)?.raw ?? BigInt(0)) <= MAX_AMOUNT,
     'Amount is too large'
   );
 
 export const NonNegativeAmount = z.string()
   .refine(
-    (val) => {
-      if (val === '' || val === '0') return true;
-      const num = parseFloat(val);
-      return !isNaN(num) && num >= 0;
-    },
+    (val) => val === '' || parseUsdcInput(val) !== null,
     'Amount must be a non-negative number'
   );
 
@@ -60,20 +60,18 @@ export const ApprovalSchema = z.object({
   userAddress: EthereumAddress
 });
 
-// Chain validation
-export const ChainIdSchema = z.union([
-  z.literal(1), // Ethereum mainnet
-  z.literal(8453), // Base mainnet
-  z.literal(84532), // Base Sepolia testnet
-  z.literal(11155111), // Sepolia testnet
-  z.literal(111155111), // Ethereum Sepolia testnet (actual contract chain ID)
-  z.literal(10), // Optimism mainnet
-  z.literal(11155420), // Optimism Sepolia testnet
-  z.literal(137), // Polygon
-  z.literal(42161), // Arbitrum mainnet
-  z.literal(421614) // Arbitrum Sepolia testnet
-], {
-  errorMap: () => ({ message: 'Unsupported chain ID' })
+// Chain validation - only chains with a deployed vault are supported
+export const ChainIdSchema = z.number().int().refine(
+  (chainId) => isVaultChain(chainId),
+  { message: 'Unsupported chain ID' }
+);
+
+// Oracle balance snapshot request - validated by the /api/oracle/balance-snapshot proxy.
+// The chain is only shape-checked: vaults from the deployment manifest are unknown server-side, the oracle rejects unknown chains
+export const BalanceSnapshotRequestSchema = z.object({
+  assets: z.string().regex(/^[1-9]\d*$/, 'Assets must be a positive integer in base units'),
+  receiver: EthereumAddress,
+  vaultChainId: z.number().int().positive('Invalid chain ID')
 });
 
 // Balance validation
@@ -119,7 +117,7 @@ export const PerformanceQuerySchema = z.object({
   days: z.number().int().min(1, 'Days must be at least 1').max(365, 'Days cannot exceed 365').optional()
 });
 
-export const ChainNameSchema = z.enum(['ethereum', 'base', 'optimism', 'arbitrum', 'polygon'], {
+export const ChainNameSchema = z.enum(CHAIN_SLUGS, {
   errorMap: () => ({ message: 'Invalid chain name' })
 });
 
@@ -169,20 +167,41 @@ export const PerformanceDataResponseSchema = z.array(z.object({
   createdAt: z.string().datetime()
 }));
 
+// Deployment manifest - per-environment vault/USDC addresses and vault features loaded at runtime
+export const DeploymentManifestSchema = z.object({
+  version: z.string().min(1, 'Manifest version is required'),
+  environment: z.string().min(1, 'Manifest environment is required'),
+  updatedAt: z.string().datetime().optional(),
+  chains: z.record(
+    z.string().regex(/^\d+$/, 'Chain keys must be numeric chain IDs'),
+    z.object({
+      vaultAddress: EthereumAddress.nullable().optional(),
+      assetAddress: EthereumAddress.nullable().optional(),
+      aavePoolAddress: EthereumAddress.nullable().optional(),
+      oracleSigner: EthereumAddress.optional(),
+      oracleDomain: z.object({
+        name: z.string().min(1, 'Domain name is required'),
+        version: z.string().min(1, 'Domain version is required')
+      }).optional()
+    })
+  )
+});
+
+// USDC approval policy chosen by the user, persisted per wallet
+export const ApprovalPolicySchema = z.object({
+  mode: z.enum(['exact', 'cap', 'unlimited']),
+  capAmount: PositiveAmount
+});
+
 // Form validation helpers
-export const validateAmount = (amount: string, maxAmount?: string): string | null => {
+export const validateAmount = (amount: string, maxAmount?: bigint): string | null => {
   try {
     PositiveAmount.parse(amount);
-    
-    if (maxAmount) {
-      const amountNum = parseFloat(amount);
-      const maxNum = parseFloat(maxAmount);
-      
-      if (amountNum > maxNum) {
-        return 'Amount exceeds maximum available';
-      }
+
+    if (maxAmount !== undefined && (parseUsdcInput(amount)?.raw ?? BigInt(0)) > maxAmount) {
+      return 'Amount exceeds maximum available';
     }
-    
+
     return null;
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -192,6 +211,27 @@ export const validateAmount = (amount: string, maxAmount?: string): string | nul
   }
 };
 
+// Check an amount against an ERC-4626 max* limit (maxDeposit/maxWithdraw/maxRedeem) read from the vault
+export const validateVaultLimit = (
+  amount: string,
+  limit: bigint | undefined,
+  label: string,
+  decimals: number = 6
+): string | null => {
+  if (limit === undefined) return null;
+
+  try {
+    if (parseUnits(amount, decimals) > limit) {
+      return limit === BigInt(0)
+        ? `Vault is not accepting ${label}s right now`
+        : `Amount exceeds the vault ${label} limit of ${formatUnits(limit, decimals)}`;
+    }
+    return null;
+  } catch {
+    return 'Invalid amount';
+  }
+};
+
 export const validateAddress = (address: string): string | null => {
   try {
     EthereumAddress.parse(address);
@@ -242,4 +282,7 @@ export type TransactionReceipt = z.infer<typeof TransactionReceiptSchema>;
 export type AavePoolData = z.infer<typeof AavePoolDataResponseSchema>;
 export type VaultData = z.infer<typeof VaultDataResponseSchema>;
 export type PerformanceData = z.infer<typeof PerformanceDataResponseSchema>;
-export type ChainName = z.infer<typeof ChainNameSchema>; 
\ No newline at end of file
+export type ChainName = z.infer<typeof ChainNameSchema>;
+export type DeploymentManifest = z.infer<typeof DeploymentManifestSchema>;
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+export type BalanceSnapshotRequest = z.infer<typeof BalanceSnapshotRequestSchema>; 
\ No newline at end of file
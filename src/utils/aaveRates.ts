@@ -0,0 +1,94 @@
+/**
+ * Live Aave v3 supply rates. Reads the USDC reserve's currentLiquidityRate
+ * (per-second rate in ray) from each chain's Pool and converts it to APY,
+ * caching results so every view shares one read per chain.
+ */
+
+import type { Address } from 'viem';
+import { getChain } from '@/constants/chains';
+import { AAVE_POOL_ABI } from '@/utils/contracts';
+import { getPublicClient } from '@/utils/publicClient';
+
+const RAY = 1e27;
+const SECONDS_PER_YEAR = 31536000;
+const DAYS_PER_YEAR = 365;
+
+const CACHE_TTL_MS = 5 * 60 * 1000; // Rates move slowly; keep RPC load down across views
+
+// Last resort when the Pool can't be read (historical Aave USDC supply APY)
+export const FALLBACK_SUPPLY_APY = 4.5;
+
+export interface SupplyRate {
+  chainId: number;
+  apy: number;           // Percent, e.g. 4.47
+  liquidityRate: bigint; // Ray, as reported by the Pool
+  fetchedAt: number;
+}
+
+// Aave compounds per second: APY = (1 + rate / secondsPerYear) ^ secondsPerYear - 1
+export const rayRateToApy = (liquidityRate: bigint): number => {
+  const apr = Number(liquidityRate) / RAY;
+  return (Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+};
+
+// Daily growth factor minus one for an APY in percent, consistent with compounding
+export const apyToDailyRate = (apy: number): number =>
+  Math.pow(1 + apy / 100, 1 / DAYS_PER_YEAR) - 1;
+
+const cache = new Map<number, SupplyRate>();
+const pending = new Map<number, Promise<SupplyRate | null>>();
+
+async function readSupplyRate(chainId: number): Promise<SupplyRate | null> {
+  const chain = getChain(chainId);
+  if (!chain?.aavePoolAddress || !chain.assetAddress) return null;
+
+  try {
+    const reserve = await getPublicClient(chainId).readContract({
+      address: chain.aavePoolAddress,
+      abi: AAVE_POOL_ABI,
+      functionName: 'getReserveData',
+      args: [chain.assetAddress as Address],
+    });
+
+    // An asset that isn't listed on the Pool comes back as an empty reserve
+    if (reserve.aTokenAddress === '0x0000000000000000000000000000000000000000') {
+      console.warn(`⚠️ USDC is not an Aave reserve on ${chain.name}`);
+      return null;
+    }
+
+    const rate: SupplyRate = {
+      chainId,
+      apy: rayRateToApy(reserve.currentLiquidityRate),
+      liquidityRate: reserve.currentLiquidityRate,
+      fetchedAt: Date.now(),
+    };
+    console.log(`📈 ${chain.name} Aave supply APY: ${rate.apy.toFixed(2)}%`);
+    cache.set(chainId, rate);
+    return rate;
+  } catch (error) {
+    console.error(`❌ Failed to read Aave reserve on ${chain.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Supply rate for a chain's USDC reserve, from cache when fresh. Returns the
+ * last known (stale) rate if a refresh fails, null when none was ever read.
+ */
+export async function getSupplyRate(chainId: number, maxAgeMs: number = CACHE_TTL_MS): Promise<SupplyRate | null> {
+  const cached = cache.get(chainId);
+  if (cached && Date.now() - cached.fetchedAt < maxAgeMs) return cached;
+
+  let request = pending.get(chainId);
+  if (!request) {
+    request = readSupplyRate(chainId).finally(() => pending.delete(chainId));
+    pending.set(chainId, request);
+  }
+  return (await request) ?? cached ?? null;
+}
+
+// APY percent per chain; chains without a readable rate are left out
+export async function getSupplyApys(chainIds: number[]): Promise<Map<number, number>> {
+  const rates = await Promise.all(chainIds.map(chainId => getSupplyRate(chainId)));
+  return new Map(rates.filter((rate): rate is SupplyRate => rate !== null).map(rate => [rate.chainId, rate.apy]));
+}
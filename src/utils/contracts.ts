@@ -1,20 +1,4 @@
-// Contract addresses for different networks
-export const CONTRACT_ADDRESSES = {
-  localhost: '0x610178dA211FEF7D417bC0e6FeD39F05609AD788',
-  ethereum: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2', // AAVE V3 Pool on Ethereum mainnet
-  baseSepolia: '0x773035EABdA16B5416B26E12156483C6B6F56451', // AaveVault on Base Sepolia (OLD - for reference)
-  arbitrumSepolia: '0xE168d95f8d1B8EC167A63c8E696076EC8EE95337', // Vault with agent: 0x20f2747bbc52453ac0774b5b2fe0e28dc6637f30
-  optimismSepolia: '', // To be deployed
-} as const;
-
-// USDC contract addresses for different networks
-export const USDC_ADDRESSES = {
-  localhost: '0x16f18Ee01365Ef23E0564dfB635215A5B4Eaa3c4', // MockUSDC for local testing
-  ethereum: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC on Ethereum mainnet  
-  baseSepolia: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Circle's official USDC on Base Sepolia testnet
-  arbitrumSepolia: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', // Circle's official USDC on Arbitrum Sepolia testnet
-  optimismSepolia: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', // Circle's official USDC on Optimism Sepolia testnet
-} as const;
+import { getChain, getVaultChains } from '@/constants/chains';
 
 // ERC20 ABI for token operations (approve, balanceOf, etc.)
 export const ERC20_ABI = [
@@ -58,6 +42,25 @@ export const ERC20_ABI = [
     "outputs": [{"internalType": "string", "name": "", "type": "string"}],
     "stateMutability": "view",
     "type": "function"
+  },
+  // Errors - ERC-6093 token errors, as declared in OpenZeppelin Contracts 5 (interfaces/draft-IERC6093.sol)
+  {
+    "inputs": [
+      {"internalType": "address", "name": "spender", "type": "address"},
+      {"internalType": "uint256", "name": "allowance", "type": "uint256"},
+      {"internalType": "uint256", "name": "needed", "type": "uint256"}
+    ],
+    "name": "ERC20InsufficientAllowance",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "sender", "type": "address"},
+      {"internalType": "uint256", "name": "balance", "type": "uint256"},
+      {"internalType": "uint256", "name": "needed", "type": "uint256"}
+    ],
+    "name": "ERC20InsufficientBalance",
+    "type": "error"
   }
 ] as const;
 
@@ -155,6 +158,50 @@ export const AAVE_VAULT_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [{"internalType": "uint256", "name": "shares", "type": "uint256"}],
+    "name": "previewRedeem",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "owner", "type": "address"}],
+    "name": "maxRedeem",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "receiver", "type": "address"}],
+    "name": "maxDeposit",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "owner", "type": "address"}],
+    "name": "maxWithdraw",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  // EIP-5267 - EIP-712 domain the vault uses to verify oracle snapshots
+  {
+    "inputs": [],
+    "name": "eip712Domain",
+    "outputs": [
+      {"internalType": "bytes1", "name": "fields", "type": "bytes1"},
+      {"internalType": "string", "name": "name", "type": "string"},
+      {"internalType": "string", "name": "version", "type": "string"},
+      {"internalType": "uint256", "name": "chainId", "type": "uint256"},
+      {"internalType": "address", "name": "verifyingContract", "type": "address"},
+      {"internalType": "bytes32", "name": "salt", "type": "bytes32"},
+      {"internalType": "uint256[]", "name": "extensions", "type": "uint256[]"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   // Events
   {
     "anonymous": false,
@@ -178,47 +225,212 @@ export const AAVE_VAULT_ABI = [
     ],
     "name": "Withdraw",
     "type": "event"
+  },
+  // Errors - ERC-4626 limits, as declared in OpenZeppelin Contracts 5 token/ERC20/extensions/ERC4626.sol.
+  // AaveVault's own snapshot errors are left out until they can be copied from its compiled ABI;
+  // parseVaultTxError matches them by name in the error text meanwhile
+  {
+    "inputs": [
+      {"internalType": "address", "name": "receiver", "type": "address"},
+      {"internalType": "uint256", "name": "assets", "type": "uint256"},
+      {"internalType": "uint256", "name": "max", "type": "uint256"}
+    ],
+    "name": "ERC4626ExceededMaxDeposit",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "receiver", "type": "address"},
+      {"internalType": "uint256", "name": "shares", "type": "uint256"},
+      {"internalType": "uint256", "name": "max", "type": "uint256"}
+    ],
+    "name": "ERC4626ExceededMaxMint",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "owner", "type": "address"},
+      {"internalType": "uint256", "name": "assets", "type": "uint256"},
+      {"internalType": "uint256", "name": "max", "type": "uint256"}
+    ],
+    "name": "ERC4626ExceededMaxWithdraw",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "owner", "type": "address"},
+      {"internalType": "uint256", "name": "shares", "type": "uint256"},
+      {"internalType": "uint256", "name": "max", "type": "uint256"}
+    ],
+    "name": "ERC4626ExceededMaxRedeem",
+    "type": "error"
   }
 ] as const;
 
+// Circle CCTP TokenMessenger - burns USDC on the source chain
+export const CCTP_TOKEN_MESSENGER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "uint32", "name": "destinationDomain", "type": "uint32"},
+      {"internalType": "bytes32", "name": "mintRecipient", "type": "bytes32"},
+      {"internalType": "address", "name": "burnToken", "type": "address"}
+    ],
+    "name": "depositForBurn",
+    "outputs": [{"internalType": "uint64", "name": "_nonce", "type": "uint64"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "uint32", "name": "destinationDomain", "type": "uint32"},
+      {"internalType": "bytes32", "name": "mintRecipient", "type": "bytes32"},
+      {"internalType": "address", "name": "burnToken", "type": "address"},
+      {"internalType": "bytes32", "name": "destinationCaller", "type": "bytes32"},
+      {"internalType": "uint256", "name": "maxFee", "type": "uint256"},
+      {"internalType": "uint32", "name": "minFinalityThreshold", "type": "uint32"}
+    ],
+    "name": "depositForBurn",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "uint64", "name": "nonce", "type": "uint64"},
+      {"indexed": true, "internalType": "address", "name": "burnToken", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": true, "internalType": "address", "name": "depositor", "type": "address"},
+      {"indexed": false, "internalType": "bytes32", "name": "mintRecipient", "type": "bytes32"},
+      {"indexed": false, "internalType": "uint32", "name": "destinationDomain", "type": "uint32"},
+      {"indexed": false, "internalType": "bytes32", "name": "destinationTokenMessenger", "type": "bytes32"},
+      {"indexed": false, "internalType": "bytes32", "name": "destinationCaller", "type": "bytes32"}
+    ],
+    "name": "DepositForBurn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "mintRecipient", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": true, "internalType": "address", "name": "mintToken", "type": "address"}
+    ],
+    "name": "MintAndWithdraw",
+    "type": "event"
+  }
+] as const;
+
+// Circle CCTP MessageTransmitter - mints USDC on the destination chain from an attested message
+export const CCTP_MESSAGE_TRANSMITTER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "bytes", "name": "message", "type": "bytes"},
+      {"internalType": "bytes", "name": "attestation", "type": "bytes"}
+    ],
+    "name": "receiveMessage",
+    "outputs": [{"internalType": "bool", "name": "success", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+// Aave V3 Pool - supply / withdraw used by the rebalancer agent, getReserveData for supply rates
+export const AAVE_POOL_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveData",
+    "outputs": [
+      {
+        "components": [
+          {
+            "components": [{"internalType": "uint256", "name": "data", "type": "uint256"}],
+            "internalType": "struct DataTypes.ReserveConfigurationMap",
+            "name": "configuration",
+            "type": "tuple"
+          },
+          {"internalType": "uint128", "name": "liquidityIndex", "type": "uint128"},
+          {"internalType": "uint128", "name": "currentLiquidityRate", "type": "uint128"},
+          {"internalType": "uint128", "name": "variableBorrowIndex", "type": "uint128"},
+          {"internalType": "uint128", "name": "currentVariableBorrowRate", "type": "uint128"},
+          {"internalType": "uint128", "name": "currentStableBorrowRate", "type": "uint128"},
+          {"internalType": "uint40", "name": "lastUpdateTimestamp", "type": "uint40"},
+          {"internalType": "uint16", "name": "id", "type": "uint16"},
+          {"internalType": "address", "name": "aTokenAddress", "type": "address"},
+          {"internalType": "address", "name": "stableDebtTokenAddress", "type": "address"},
+          {"internalType": "address", "name": "variableDebtTokenAddress", "type": "address"},
+          {"internalType": "address", "name": "interestRateStrategyAddress", "type": "address"},
+          {"internalType": "uint128", "name": "accruedToTreasury", "type": "uint128"},
+          {"internalType": "uint128", "name": "unbacked", "type": "uint128"},
+          {"internalType": "uint128", "name": "isolationModeTotalDebt", "type": "uint128"}
+        ],
+        "internalType": "struct DataTypes.ReserveData",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "supply",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "withdraw",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "reserve", "type": "address"},
+      {"indexed": false, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": true, "internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "Supply",
+    "type": "event"
+  }
+] as const;
+
+const supportedNetworksMessage = () =>
+  `Supported networks: ${getVaultChains().map(chain => `${chain.name} (${chain.id})`).join(', ')}.`;
+
 // Helper function to get contract address for current network
 export const getContractAddress = (chainId: number): string => {
-  switch (chainId) {
-    case 31337: // localhost
-      return CONTRACT_ADDRESSES.localhost;
-    case 1: // Ethereum mainnet
-      return CONTRACT_ADDRESSES.ethereum;
-    case 84532: // Base Sepolia
-      return CONTRACT_ADDRESSES.baseSepolia;
-    case 421614: // Arbitrum Sepolia
-      if (!CONTRACT_ADDRESSES.arbitrumSepolia) {
-        throw new Error('AAVE Vault not yet deployed on Arbitrum Sepolia. Coming soon!');
-      }
-      return CONTRACT_ADDRESSES.arbitrumSepolia;
-    case 11155420: // Optimism Sepolia
-      if (!CONTRACT_ADDRESSES.optimismSepolia) {
-        throw new Error('AAVE Vault not yet deployed on Optimism Sepolia. Coming soon!');
-      }
-      return CONTRACT_ADDRESSES.optimismSepolia;
-    default:
-      throw new Error(`Unsupported chain ID: ${chainId}. Supported networks: Ethereum (1), Base Sepolia (84532), Arbitrum Sepolia (421614), Optimism Sepolia (11155420), or Localhost (31337).`);
+  const chain = getChain(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain ID: ${chainId}. ${supportedNetworksMessage()}`);
   }
+  if (!chain.vaultAddress) {
+    throw new Error(`AAVE Vault not yet deployed on ${chain.name}. Coming soon!`);
+  }
+  return chain.vaultAddress;
 };
 
 // Helper function to get USDC address for current network
 export const getUSDCAddress = (chainId: number): string => {
-  switch (chainId) {
-    case 31337: // localhost
-      return USDC_ADDRESSES.localhost;
-    case 1: // Ethereum mainnet
-      return USDC_ADDRESSES.ethereum;
-    case 84532: // Base Sepolia
-      return USDC_ADDRESSES.baseSepolia;
-    case 421614: // Arbitrum Sepolia
-      return USDC_ADDRESSES.arbitrumSepolia;
-    case 11155420: // Optimism Sepolia
-      return USDC_ADDRESSES.optimismSepolia;
-    default:
-      throw new Error(`Unsupported chain ID: ${chainId}. Supported networks: Ethereum (1), Base Sepolia (84532), Arbitrum Sepolia (421614), Optimism Sepolia (11155420), or Localhost (31337).`);
+  const chain = getChain(chainId);
+  if (!chain || !chain.assetAddress) {
+    throw new Error(`Unsupported chain ID: ${chainId}. ${supportedNetworksMessage()}`);
   }
-}; 
\ No newline at end of file
+  return chain.assetAddress;
+};
@@ -0,0 +1,149 @@
+/**
+ * Paginated, filterable reader for the rebalancer's activity logs.
+ *
+ * The contract only exposes get_latest_logs(count), so pages are served from a
+ * local cache keyed by nonce that grows backwards on demand, and polling only
+ * asks for a small batch of the newest logs, widening it when there is a gap.
+ */
+
+import { createNearContractReader, NearContractReader, type ActivityLog } from '@/utils/nearContract';
+
+export interface ActivityLogFilter {
+  activityTypes?: string[];
+  sourceChain?: number;
+  destinationChain?: number;
+  crossChainOnly?: boolean;
+  fromTime?: number; // ms since epoch, inclusive
+  toTime?: number;   // ms since epoch, inclusive
+}
+
+export interface ActivityLogPageRequest {
+  before?: number; // Cursor: only logs with a lower nonce (omit for the newest page)
+  limit?: number;
+  filter?: ActivityLogFilter;
+}
+
+export interface ActivityLogPage {
+  logs: ActivityLog[];        // Newest first
+  nextCursor: number | null;  // Pass as `before` for the next page, null when there are no older logs
+}
+
+export interface ActivityLogReaderOptions {
+  pollBatchSize?: number; // Logs requested per poll before widening
+  maxFetch?: number;      // Upper bound for a single get_latest_logs call
+}
+
+// Contract timestamps are block timestamps in nanoseconds; accept ms/s too for older logs
+export const getLogTimeMs = (log: ActivityLog): number => {
+  const timestamp = Number(log.timestamp);
+  if (timestamp > 1e15) return Math.floor(timestamp / 1e6);
+  if (timestamp > 1e12) return timestamp;
+  return timestamp * 1000;
+};
+
+export const matchesActivityFilter = (log: ActivityLog, filter: ActivityLogFilter = {}): boolean => {
+  if (filter.activityTypes?.length
+    && !filter.activityTypes.some(type => type.toLowerCase() === log.activity_type?.toLowerCase())) {
+    return false;
+  }
+  if (filter.sourceChain !== undefined && log.source_chain !== filter.sourceChain) return false;
+  if (filter.destinationChain !== undefined && log.destination_chain !== filter.destinationChain) return false;
+  if (filter.crossChainOnly && log.source_chain === log.destination_chain) return false;
+
+  if (filter.fromTime !== undefined || filter.toTime !== undefined) {
+    const time = getLogTimeMs(log);
+    if (filter.fromTime !== undefined && time < filter.fromTime) return false;
+    if (filter.toTime !== undefined && time > filter.toTime) return false;
+  }
+  return true;
+};
+
+export class ActivityLogReader {
+  private reader: NearContractReader;
+  private pollBatchSize: number;
+  private maxFetch: number;
+  private cache = new Map<number, ActivityLog>();
+  private fetchedCount = 0;          // Largest count requested so far
+  private reachedStart = false;      // The contract returned fewer logs than asked, so we have the oldest
+  private lastSeenNonce: number | null = null;
+
+  constructor(reader: NearContractReader = createNearContractReader(), options: ActivityLogReaderOptions = {}) {
+    this.reader = reader;
+    this.pollBatchSize = options.pollBatchSize ?? 10;
+    this.maxFetch = options.maxFetch ?? 500;
+  }
+
+  private async fetchLatest(count: number): Promise<ActivityLog[]> {
+    const requested = Math.min(count, this.maxFetch);
+    const logs = await this.reader.getLatestLogs(requested);
+
+    for (const log of logs) {
+      this.cache.set(log.nonce, log);
+    }
+    if (requested > this.fetchedCount) {
+      this.fetchedCount = requested;
+      if (logs.length < requested) this.reachedStart = true;
+    }
+    const newest = logs.reduce((max, log) => Math.max(max, log.nonce), this.lastSeenNonce ?? -1);
+    if (newest >= 0) this.lastSeenNonce = newest;
+    return logs;
+  }
+
+  private cachedLogs(): ActivityLog[] {
+    return Array.from(this.cache.values()).sort((a, b) => b.nonce - a.nonce);
+  }
+
+  /**
+   * One page of logs older than `before` that match the filter, newest first.
+   * Fetches further back only when the cache can't fill the page.
+   */
+  async getPage({ before, limit = 10, filter }: ActivityLogPageRequest = {}): Promise<ActivityLogPage> {
+    for (;;) {
+      const candidates = this.cachedLogs().filter(log =>
+        (before === undefined || log.nonce < before) && matchesActivityFilter(log, filter)
+      );
+      const exhausted = this.reachedStart || this.fetchedCount >= this.maxFetch;
+
+      if (candidates.length >= limit || exhausted) {
+        const logs = candidates.slice(0, limit);
+        const hasMore = candidates.length > limit || !exhausted;
+        return { logs, nextCursor: hasMore && logs.length > 0 ? logs[logs.length - 1].nonce : null };
+      }
+
+      await this.fetchLatest(Math.max(limit, this.fetchedCount * 2));
+    }
+  }
+
+  /**
+   * Logs newer than the last seen nonce, newest first. The first call only
+   * records the current head and returns the newest batch.
+   */
+  async poll(filter?: ActivityLogFilter): Promise<ActivityLog[]> {
+    const previous = this.lastSeenNonce;
+    let batch = this.pollBatchSize;
+    let logs = await this.fetchLatest(batch);
+
+    // Every returned log is new, so there may be more between the last seen nonce and this batch
+    while (
+      previous !== null
+      && logs.length === batch
+      && batch < this.maxFetch
+      && logs.every(log => log.nonce > previous)
+    ) {
+      batch *= 2;
+      logs = await this.fetchLatest(batch);
+    }
+
+    return this.cachedLogs().filter(log =>
+      (previous === null || log.nonce > previous) && matchesActivityFilter(log, filter)
+    ).slice(0, previous === null ? this.pollBatchSize : undefined);
+  }
+
+  // Forget everything, e.g. after switching contracts
+  reset() {
+    this.cache.clear();
+    this.fetchedCount = 0;
+    this.reachedStart = false;
+    this.lastSeenNonce = null;
+  }
+}
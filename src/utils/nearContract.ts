@@ -1,12 +1,51 @@
-// NEAR network configuration
-const CONTRACT_ID = 'rebalancer-abcdefghij-57.testnet'; // Updated to the new contract with better data
+import { getNearNetwork, getNearRpcClient, NearRpcClient, NearRpcError, type NearBlockReference, type NearNetworkId } from '@/utils/nearRpc';
+import { USDC_DECIMALS } from '@/lib/amount';
+import type { FinalExecutionOutcome, WalletSelector } from '@near-wallet-selector/core';
+import { decodeSignedTransactions, type DecodedSignedTransaction } from '@/utils/signedTransactions';
+import { ActivityLogReader } from '@/utils/nearActivityLog';
+
+// Default rebalancer contract per NEAR network (RPC endpoints and network come from nearRpc).
+// No mainnet deployment yet, so mainnet needs NEXT_PUBLIC_NEAR_CONTRACT_ID
+const CONTRACT_IDS: Record<NearNetworkId, string | null> = {
+  mainnet: null,
+  testnet: 'rebalancer-abcdefghij-57.testnet', // Updated to the new contract with better data
+};
+
+// Account suffix of each network, named accounts end in .near / .testnet
+const ACCOUNT_SUFFIXES: Record<NearNetworkId, string> = {
+  mainnet: '.near',
+  testnet: '.testnet',
+};
+
+/**
+ * Rebalancer contract account for the configured network, overridable per
+ * deployment. Throws rather than reading the other network's contract: when
+ * mainnet has no contract configured, or the account is named for the other
+ * network (implicit 64-hex accounts carry no suffix and are accepted).
+ */
+export const getNearContractId = (): string => {
+  const network = getNearNetwork();
+  const contractId = process.env.NEXT_PUBLIC_NEAR_CONTRACT_ID || CONTRACT_IDS[network];
+  if (!contractId) {
+    throw new Error(`No rebalancer contract for NEAR ${network}, set NEXT_PUBLIC_NEAR_CONTRACT_ID`);
+  }
 
-// RPC endpoint for the network
-const RPC_URL = 'https://rpc.testnet.near.org'; // Use testnet for now
+  const otherNetwork = (Object.keys(ACCOUNT_SUFFIXES) as NearNetworkId[]).find(
+    id => id !== network && contractId.endsWith(ACCOUNT_SUFFIXES[id])
+  );
+  if (otherNetwork) {
+    throw new Error(`NEAR contract ${contractId} is a ${otherNetwork} account but the app is on ${network}`);
+  }
+  return contractId;
+};
+
+// u128 amounts in allocations and activity logs are USDC base units
+export const NEAR_AMOUNT_DECIMALS = USDC_DECIMALS;
 
 export interface ViewCallOptions {
   methodName: string;
   args?: Record<string, unknown>;
+  block?: NearBlockReference; // Defaults to final finality
 }
 
 export interface AllocationData {
@@ -20,6 +59,7 @@ export interface AllocationData {
 export interface ChainAllocation {
   chainId: number;
   amount: string; // u128 as string to handle large numbers
+  decimals: number; // Decimals of `amount`, see NEAR_AMOUNT_DECIMALS
 }
 
 // Updated ActivityLog structure with more detailed info
@@ -44,48 +84,20 @@ export interface SignedTransaction {
  */
 export class NearContractReader {
   private contractId: string;
-  private rpcUrl: string;
+  private client: NearRpcClient;
 
-  constructor(contractId: string = CONTRACT_ID) {
+  constructor(contractId: string = getNearContractId(), client: NearRpcClient = getNearRpcClient()) {
     this.contractId = contractId;
-    this.rpcUrl = RPC_URL;
+    this.client = client;
   }
 
   /**
-   * Call a view method on the contract (read-only, no wallet required)
+   * Call a view method on the contract (read-only, no wallet required).
+   * Throws a NearRpcError whose code tells contract errors from transport failures.
    */
-  async viewMethod({ methodName, args = {} }: ViewCallOptions): Promise<unknown> {
+  async viewMethod({ methodName, args = {}, block }: ViewCallOptions): Promise<unknown> {
     try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 'dontcare',
-          method: 'query',
-          params: {
-            request_type: 'call_function',
-            finality: 'final',
-            account_id: this.contractId,
-            method_name: methodName,
-            args_base64: Buffer.from(JSON.stringify(args)).toString('base64'),
-          },
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(`NEAR RPC Error: ${data.error.message || 'Unknown error'}`);
-      }
-
-      if (!data.result || !data.result.result) {
-        throw new Error('Invalid response from NEAR RPC');
-      }
-
-      return JSON.parse(Buffer.from(data.result.result).toString());
+      return await this.client.viewFunction(this.contractId, methodName, args, block);
     } catch (error) {
       console.error(`Error calling NEAR contract method ${methodName}:`, error);
       throw error;
@@ -105,7 +117,8 @@ export class NearContractReader {
       console.log('✅ NEAR contract connection successful - rebalancer-10 contract found');
       return true;
     } catch (error) {
-      console.log('❌ NEAR contract method not found or connection failed:', error);
+      const reason = error instanceof NearRpcError ? error.code : 'unknown error';
+      console.log(`❌ NEAR contract connection failed (${reason}):`, error);
       return false;
     }
   }
@@ -120,7 +133,8 @@ export class NearContractReader {
 
     return rawAllocations.map(([chainId, amount]) => ({
       chainId,
-      amount
+      amount: String(amount),
+      decimals: NEAR_AMOUNT_DECIMALS
     }));
   }
 
@@ -206,17 +220,13 @@ export class NearContractReader {
   }
 
   /**
-   * Get cross-chain rebalancing activity (integrated with the new contract)
+   * The `limit` newest cross-chain rebalancing logs (source != destination),
+   * paged through ActivityLogReader so older logs are fetched until the page is full
    */
   async getCrossChainActivity(limit: number = 20): Promise<ActivityLog[]> {
     try {
-      const logs = await this.getLatestLogs(limit);
-      
-      // With the new format, all logs have source_chain and destination_chain
-      // so we can filter for cross-chain activities (where source != destination)
-      return logs.filter(log => 
-        log.source_chain !== log.destination_chain
-      );
+      const { logs } = await new ActivityLogReader(this).getPage({ limit, filter: { crossChainOnly: true } });
+      return logs;
     } catch (error) {
       console.error('Error fetching cross-chain activity:', error);
       return [];
@@ -224,27 +234,37 @@ export class NearContractReader {
   }
 
   /**
-   * Get pending transactions that can be executed on Ethereum
+   * Get pending transactions that can be executed on EVM chains - every signed
+   * payload that decodes to a transaction with a chain id. Throws a NearRpcError
+   * if the contract can't be read, so callers can tell "none pending" from "unknown".
    */
-  async getPendingEthereumTransactions(): Promise<SignedTransaction[]> {
-    try {
-      const transactions = await this.getSignedTransactions();
-      
-      // Filter for Ethereum transactions (payload_type might indicate the target chain)
-      return transactions.filter(tx => tx.payload_type === 1); // Assuming 1 is for Ethereum
-    } catch (error) {
-      console.error('Error fetching pending Ethereum transactions:', error);
-      return [];
-    }
+  async getPendingEthereumTransactions(nonce: number = 0): Promise<DecodedSignedTransaction[]> {
+    const transactions = await this.getSignedTransactions(nonce);
+    const decoded = await decodeSignedTransactions(transactions);
+
+    return decoded.filter((tx): tx is { decoded: true } & DecodedSignedTransaction =>
+      tx.decoded && tx.chainId !== undefined
+    );
   }
 }
 
+// Check the NEAR RPC node is reachable and synced enough to answer `status`
+export const checkNearRpcHealth = async (timeoutMs: number = 8000): Promise<boolean> => {
+  try {
+    const client = new NearRpcClient({ rpcUrls: getNearRpcClient().endpoints, timeoutMs });
+    const status = await client.status();
+    return !status.sync_info?.syncing;
+  } catch {
+    return false;
+  }
+};
+
 // Utility function to create a contract reader instance
 export const createNearContractReader = (contractId?: string) => {
   return new NearContractReader(contractId);
 };
 
-// Legacy exports for backward compatibility (wallet-based)
+// Change method call options; gas in gas units, deposit in yoctoNEAR
 export interface ContractCallOptions {
   methodName: string;
   args?: Record<string, unknown>;
@@ -252,23 +272,139 @@ export interface ContractCallOptions {
   deposit?: string;
 }
 
-// Keep the old NearContract class for when wallet functionality is needed
+export const DEFAULT_CALL_GAS = '30000000000000'; // 30 Tgas
+
+export type NearCallErrorCode =
+  | 'not_signed_in'
+  | 'rejected'          // User closed or declined the wallet prompt
+  | 'execution_failed'  // Transaction landed but the contract call failed (panic, access control...)
+  | 'unknown';
+
+export class NearCallError extends Error {
+  readonly code: NearCallErrorCode;
+  readonly transactionHash?: string;
+
+  constructor(code: NearCallErrorCode, message: string, options?: { transactionHash?: string; cause?: unknown }) {
+    super(message);
+    this.name = 'NearCallError';
+    this.code = code;
+    this.transactionHash = options?.transactionHash;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export type ContractCallResult<T = unknown> =
+  | { status: 'success'; transactionHash: string; value: T | undefined; logs: string[]; gasBurnt: number }
+  | { status: 'redirected' }; // Browser wallets navigate away and report back on the callback URL
+
+// Human-readable failure from a raw execution status (shape differs between RPC and wallet responses)
+const describeFailure = (failure: unknown): string => {
+  if (!failure || typeof failure !== 'object') return 'Transaction failed';
+  const { error_message: errorMessage } = failure as { error_message?: string };
+  if (errorMessage) return errorMessage;
+  const kind = (failure as { ActionError?: { kind?: { FunctionCallError?: { ExecutionError?: string } } } })
+    .ActionError?.kind;
+  return kind?.FunctionCallError?.ExecutionError ?? JSON.stringify(kind ?? failure);
+};
+
+/**
+ * Turn a final execution outcome into a result: decoded SuccessValue, logs of
+ * every receipt and burnt gas. Throws NearCallError('execution_failed') when
+ * the transaction or any receipt failed.
+ */
+export const parseExecutionOutcome = <T = unknown>(outcome: FinalExecutionOutcome): ContractCallResult<T> => {
+  const transactionHash = outcome.transaction_outcome?.id ?? outcome.transaction?.hash;
+  const receipts = outcome.receipts_outcome ?? [];
+
+  const failedReceipt = receipts.find(receipt =>
+    typeof receipt.outcome.status === 'object' && 'Failure' in receipt.outcome.status
+  );
+  const status = outcome.status;
+  if (typeof status === 'object' && status.Failure) {
+    throw new NearCallError('execution_failed', describeFailure(status.Failure), { transactionHash });
+  }
+  if (failedReceipt && typeof failedReceipt.outcome.status === 'object') {
+    throw new NearCallError('execution_failed', describeFailure(failedReceipt.outcome.status.Failure), { transactionHash });
+  }
+
+  let value: T | undefined;
+  const successValue = typeof status === 'object' ? status.SuccessValue : undefined;
+  if (successValue) {
+    const decoded = new TextDecoder().decode(Uint8Array.from(atob(successValue), char => char.charCodeAt(0)));
+    try {
+      value = JSON.parse(decoded) as T;
+    } catch {
+      value = decoded as unknown as T;
+    }
+  }
+
+  return {
+    status: 'success',
+    transactionHash,
+    value,
+    logs: [outcome.transaction_outcome, ...receipts].flatMap(item => item?.outcome.logs ?? []),
+    gasBurnt: [outcome.transaction_outcome, ...receipts].reduce((sum, item) => sum + (item?.outcome.gas_burnt ?? 0), 0),
+  };
+};
+
+// End tags of a declined Meteor prompt (EDappActionErrorTag in @meteorwallet/sdk). MyNearWallet
+// redirects instead of throwing, so a declined prompt there never reaches callMethod
+const METEOR_REJECTION_TAGS = ['USER_CANCELLED', 'WINDOW_CLOSED'];
+
+// Only the wallet's own rejection error counts, so a failure that mentions a "user" stays an error
+const isUserRejection = (error: unknown) => {
+  if (!(error instanceof Error) || error.name !== 'MeteorActionError') return false;
+  const endTags = (error as { _reason?: { endTags?: unknown } })._reason?.endTags;
+  return Array.isArray(endTags) && endTags.some(tag => METEOR_REJECTION_TAGS.includes(tag));
+};
+
+// Contract access through the NEAR wallet selector: view calls via RPC, change calls signed by the wallet
 export class NearContract {
   private contractId: string;
+  private selector: WalletSelector | null;
 
-  constructor(selector: unknown, contractId: string = CONTRACT_ID) {
+  constructor(selector: WalletSelector | null, contractId: string = getNearContractId()) {
     this.contractId = contractId;
+    this.selector = selector;
   }
 
-  async viewMethod({ methodName, args = {} }: ViewCallOptions): Promise<unknown> {
+  async viewMethod({ methodName, args = {}, block }: ViewCallOptions): Promise<unknown> {
     const reader = new NearContractReader(this.contractId);
-    return reader.viewMethod({ methodName, args });
+    return reader.viewMethod({ methodName, args, block });
   }
 
-  // Placeholder methods for wallet-based operations
-  async callMethod({ methodName, args = {} }: ContractCallOptions): Promise<unknown> {
-    console.log(`Would call ${methodName} with args:`, args);
-    throw new Error('Wallet-based contract calls not implemented. Use NearContractReader for view-only operations.');
+  /**
+   * Sign and send a change method call with the connected wallet.
+   * Throws NearCallError: not_signed_in, rejected or execution_failed.
+   */
+  async callMethod<T = unknown>({ methodName, args = {}, gas = DEFAULT_CALL_GAS, deposit = '0' }: ContractCallOptions): Promise<ContractCallResult<T>> {
+    if (!this.selector?.isSignedIn()) {
+      throw new NearCallError('not_signed_in', 'Connect a NEAR wallet to call contract methods');
+    }
+
+    let outcome: FinalExecutionOutcome | void;
+    try {
+      const wallet = await this.selector.wallet();
+      console.log(`📝 Calling ${this.contractId}.${methodName}`, { args, gas, deposit });
+      outcome = await wallet.signAndSendTransaction({
+        receiverId: this.contractId,
+        actions: [{
+          type: 'FunctionCall',
+          params: { methodName, args, gas, deposit },
+        }],
+      });
+    } catch (error) {
+      if (error instanceof NearCallError) throw error;
+      if (isUserRejection(error)) {
+        throw new NearCallError('rejected', 'Transaction was rejected in the wallet', { cause: error });
+      }
+      throw new NearCallError('unknown', error instanceof Error ? error.message : 'Contract call failed', { cause: error });
+    }
+
+    if (!outcome) return { status: 'redirected' };
+    return parseExecutionOutcome<T>(outcome);
   }
 
   async getPortfolioAllocation(accountId: string) {
@@ -286,6 +422,6 @@ export class NearContract {
   }
 }
 
-export const createNearContract = (selector: unknown, contractId?: string) => {
+export const createNearContract = (selector: WalletSelector | null, contractId?: string) => {
   return new NearContract(selector, contractId);
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,245 @@
+/**
+ * NEAR RPC client - JSON-RPC over fetch with endpoint failover, per-request
+ * timeouts, finality / block height selection and typed errors.
+ *
+ *   NEXT_PUBLIC_NEAR_NETWORK   mainnet | testnet (default testnet)
+ *   NEXT_PUBLIC_NEAR_RPC_URLS  comma-separated endpoints, tried in order (default: the network's public RPCs)
+ */
+
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, type RetryPolicy } from '@/lib/retry';
+
+export type NearNetworkId = 'mainnet' | 'testnet';
+
+export const NEAR_RPC_URLS: Record<NearNetworkId, string[]> = {
+  mainnet: ['https://rpc.mainnet.near.org', 'https://free.rpc.fastnear.com'],
+  testnet: ['https://rpc.testnet.near.org', 'https://test.rpc.fastnear.com'],
+};
+
+// Either a finality level or an explicit block (height or hash)
+export type NearBlockReference =
+  | { finality: 'optimistic' | 'final' }
+  | { blockId: number | string };
+
+export type NearRpcErrorCode =
+  | 'method_not_found'       // Contract exists but has no such view method
+  | 'contract_not_deployed'  // Account missing or has no contract code
+  | 'execution_error'        // View method panicked or failed
+  | 'unknown_block'          // Block not available on this node (e.g. garbage collected)
+  | 'transport'              // Network error, timeout, HTTP error or node unavailable
+  | 'invalid_response';      // Response could not be parsed
+
+// Codes that depend on the node rather than the contract, so another endpoint may succeed
+const FAILOVER_CODES: NearRpcErrorCode[] = ['transport', 'invalid_response', 'unknown_block'];
+
+/**
+ * Structured NEAR RPC failure - `code` separates contract problems from
+ * transport problems, `endpoint` is the last endpoint tried.
+ */
+export class NearRpcError extends Error {
+  readonly code: NearRpcErrorCode;
+  readonly endpoint?: string;
+
+  constructor(code: NearRpcErrorCode, message: string, options?: { endpoint?: string; cause?: unknown }) {
+    super(message);
+    this.name = 'NearRpcError';
+    this.code = code;
+    this.endpoint = options?.endpoint;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export interface NearRpcClientOptions {
+  network?: NearNetworkId;
+  rpcUrls?: string[];
+  timeoutMs?: number;
+  attemptsPerEndpoint?: number;
+}
+
+export interface NearFunctionCallResult {
+  result: number[];
+  logs: string[];
+  block_height: number;
+  block_hash: string;
+}
+
+export const getNearNetwork = (): NearNetworkId =>
+  process.env.NEXT_PUBLIC_NEAR_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
+
+const getConfiguredRpcUrls = (network: NearNetworkId): string[] => {
+  const configured = process.env.NEXT_PUBLIC_NEAR_RPC_URLS
+    ?.split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  return configured?.length ? configured : NEAR_RPC_URLS[network];
+};
+
+const toBlockParams = (block: NearBlockReference) =>
+  'blockId' in block ? { block_id: block.blockId } : { finality: block.finality };
+
+// Map a JSON-RPC error (structured `cause` or legacy message) to an error code
+function classifyRpcError(error: { name?: string; cause?: { name?: string; info?: { vm_error?: string } }; message?: string; data?: unknown }): NearRpcErrorCode {
+  const cause = error.cause?.name;
+  const detail = `${error.cause?.info?.vm_error ?? ''} ${error.message ?? ''} ${typeof error.data === 'string' ? error.data : ''}`;
+
+  if (cause === 'UNKNOWN_ACCOUNT' || cause === 'NO_CONTRACT_CODE') return 'contract_not_deployed';
+  if (cause === 'UNKNOWN_BLOCK') return 'unknown_block';
+  if (detail.includes('MethodNotFound')) return 'method_not_found';
+  if (detail.includes('CodeDoesNotExist') || detail.includes('does not exist while viewing')) return 'contract_not_deployed';
+  if (cause === 'CONTRACT_EXECUTION_ERROR' || detail.includes('wasm execution failed')) return 'execution_error';
+  return 'transport';
+}
+
+// Legacy nodes report view call failures as `result.error` with a wasm error string
+function classifyExecutionError(message: string): NearRpcErrorCode {
+  if (message.includes('MethodNotFound')) return 'method_not_found';
+  if (message.includes('CodeDoesNotExist')) return 'contract_not_deployed';
+  return 'execution_error';
+}
+
+export class NearRpcClient {
+  readonly network: NearNetworkId;
+  private rpcUrls: string[];
+  private policy: RetryPolicy;
+  // Start with whichever endpoint answered last
+  private preferredIndex = 0;
+
+  constructor(options: NearRpcClientOptions = {}) {
+    this.network = options.network ?? getNearNetwork();
+    this.rpcUrls = options.rpcUrls?.length ? options.rpcUrls : getConfiguredRpcUrls(this.network);
+    this.policy = {
+      ...DEFAULT_RETRY_POLICY,
+      attempts: options.attemptsPerEndpoint ?? 1,
+      timeoutMs: options.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs,
+    };
+  }
+
+  get endpoints(): string[] {
+    return [...this.rpcUrls];
+  }
+
+  /**
+   * Send a JSON-RPC request, failing over to the next endpoint on transport
+   * errors. Contract errors are thrown straight away since every node agrees on them.
+   */
+  async request<T>(method: string, params: unknown): Promise<T> {
+    let lastError: NearRpcError | undefined;
+
+    for (let i = 0; i < this.rpcUrls.length; i++) {
+      const index = (this.preferredIndex + i) % this.rpcUrls.length;
+      const endpoint = this.rpcUrls[index];
+
+      try {
+        const result = await this.send<T>(endpoint, method, params);
+        this.preferredIndex = index;
+        return result;
+      } catch (error) {
+        if (!(error instanceof NearRpcError) || !FAILOVER_CODES.includes(error.code)) {
+          throw error;
+        }
+        lastError = error;
+        console.warn(`⚠️ NEAR RPC ${endpoint} failed (${error.code}), trying next endpoint`);
+      }
+    }
+
+    throw lastError ?? new NearRpcError('transport', 'No NEAR RPC endpoints configured');
+  }
+
+  private async send<T>(endpoint: string, method: string, params: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetchWithRetry(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 'dontcare',
+          method,
+          params,
+        }),
+      }, this.policy);
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      throw new NearRpcError('transport', timedOut ? `Request timed out after ${this.policy.timeoutMs}ms` : 'Network error', { endpoint, cause: error });
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!data) {
+      throw new NearRpcError(response.ok ? 'invalid_response' : 'transport', `Invalid response (HTTP ${response.status})`, { endpoint });
+    }
+
+    if (data.error) {
+      const code = classifyRpcError(data.error);
+      throw new NearRpcError(code, `NEAR RPC Error: ${data.error.cause?.name || data.error.message || 'Unknown error'}`, { endpoint, cause: data.error });
+    }
+
+    if (!response.ok || data.result === undefined) {
+      throw new NearRpcError('transport', `Invalid response from NEAR RPC (HTTP ${response.status})`, { endpoint });
+    }
+
+    return data.result as T;
+  }
+
+  /**
+   * Call a view function, returning the raw result bytes and block info
+   */
+  async callFunction(
+    contractId: string,
+    methodName: string,
+    args: Record<string, unknown> = {},
+    block: NearBlockReference = { finality: 'final' }
+  ): Promise<NearFunctionCallResult> {
+    const result = await this.request<NearFunctionCallResult & { error?: string }>('query', {
+      request_type: 'call_function',
+      ...toBlockParams(block),
+      account_id: contractId,
+      method_name: methodName,
+      args_base64: Buffer.from(JSON.stringify(args)).toString('base64'),
+    });
+
+    if (result.error) {
+      throw new NearRpcError(classifyExecutionError(result.error), `NEAR RPC Error: ${result.error}`);
+    }
+    if (!Array.isArray(result.result)) {
+      throw new NearRpcError('invalid_response', 'Invalid response from NEAR RPC');
+    }
+    return result;
+  }
+
+  /**
+   * Call a view function and parse its JSON result
+   */
+  async viewFunction<T = unknown>(
+    contractId: string,
+    methodName: string,
+    args: Record<string, unknown> = {},
+    block?: NearBlockReference
+  ): Promise<T> {
+    const { result } = await this.callFunction(contractId, methodName, args, block);
+    try {
+      return JSON.parse(Buffer.from(result).toString()) as T;
+    } catch (error) {
+      throw new NearRpcError('invalid_response', `Result of ${methodName} is not valid JSON`, { cause: error });
+    }
+  }
+
+  /**
+   * Node status - used for health checks
+   */
+  async status(): Promise<{ sync_info: { syncing: boolean; latest_block_height: number } }> {
+    return this.request('status', []);
+  }
+}
+
+let defaultClient: NearRpcClient | null = null;
+
+// Shared client for the configured network, so endpoint preference carries across readers
+export const getNearRpcClient = (): NearRpcClient => {
+  if (!defaultClient) {
+    defaultClient = new NearRpcClient();
+  }
+  return defaultClient;
+};
@@ -0,0 +1,150 @@
+import { type Address, type Hex } from 'viem';
+import { estimateL1Fee } from 'viem/op-stack';
+import { getChain } from '@/constants/chains';
+import { formatAmount, toAmount } from '@/lib/amount';
+import { getPublicClient } from '@/utils/publicClient';
+
+/**
+ * Network fee of a vault transaction, shown in the confirmation step so users
+ * see what they'll pay in the native token before the wallet opens.
+ *
+ * Rollups add the cost of posting the transaction to L1: OP-stack chains
+ * (Optimism, Base) charge it on top of L2 gas, Arbitrum folds it into the gas
+ * estimate itself and only reports the split through its NodeInterface.
+ */
+
+export interface NetworkFeeEstimate {
+  gas: bigint;                  // Estimated gas units
+  gasLimit: bigint;             // Limit the transaction is sent with
+  baseFeePerGas: bigint | null; // Latest block's base fee, null on chains without EIP-1559
+  maxFeePerGas: bigint;         // Highest price per gas the wallet will offer (gas price on legacy chains)
+  l1Fee: bigint | null;         // L1 data fee in wei, null off rollups or when it could not be read
+  l1FeeIncluded: boolean;       // Part of the L2 gas (Arbitrum) rather than charged on top (OP-stack)
+  expectedCost: bigint;         // Likely total in wei: estimated gas at base fee + tip, plus an OP-stack L1 fee
+  maxCost: bigint;              // Balance the wallet requires: gas limit at the max fee, plus an OP-stack L1 fee
+  nativeSymbol: string;
+  nativeDecimals: number;
+}
+
+export interface NetworkFeeRequest {
+  to: Address;
+  data: Hex;
+  gas: bigint;
+  gasLimit: bigint;
+}
+
+// Arbitrum precompile for fee breakdowns, only reachable through eth_call
+const ARBITRUM_NODE_INTERFACE = '0x00000000000000000000000000000000000000C8' as const;
+
+const NODE_INTERFACE_ABI = [
+  {
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'contractCreation', type: 'bool' },
+      { name: 'data', type: 'bytes' },
+    ],
+    name: 'gasEstimateL1Component',
+    outputs: [
+      { name: 'gasEstimateForL1', type: 'uint64' },
+      { name: 'baseFee', type: 'uint256' },
+      { name: 'l1BaseFeeEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const;
+
+const readL1Fee = async (chainId: number, account: Address, { to, data }: NetworkFeeRequest): Promise<bigint | null> => {
+  const rollup = getChain(chainId)?.rollup;
+  if (!rollup) return null;
+  const client = getPublicClient(chainId);
+
+  try {
+    if (rollup === 'op-stack') {
+      return await estimateL1Fee(client, { account, to, data, chain: client.chain });
+    }
+    // L1 share of the gas estimate, priced at the L2 base fee it is charged at
+    const { result: [gasForL1, baseFee] } = await client.simulateContract({
+      address: ARBITRUM_NODE_INTERFACE,
+      abi: NODE_INTERFACE_ABI,
+      functionName: 'gasEstimateL1Component',
+      args: [to, false, data],
+      account,
+    });
+    return gasForL1 * baseFee;
+  } catch (error) {
+    console.warn(`⚠️ Could not read the L1 data fee on chain ${chainId}:`, error);
+    return null;
+  }
+};
+
+// Fee for sending `request` from `account` at current network prices
+export async function estimateNetworkFee(chainId: number, account: Address, request: NetworkFeeRequest): Promise<NetworkFeeEstimate> {
+  const client = getPublicClient(chainId);
+  const nativeCurrency = client.chain?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 };
+
+  const [block, l1Fee] = await Promise.all([client.getBlock(), readL1Fee(chainId, account, request)]);
+  const baseFeePerGas = block.baseFeePerGas ?? null;
+
+  let pricePerGas: bigint;
+  let maxFeePerGas: bigint;
+  if (baseFeePerGas !== null) {
+    const fees = await client.estimateFeesPerGas();
+    pricePerGas = baseFeePerGas + fees.maxPriorityFeePerGas;
+    maxFeePerGas = fees.maxFeePerGas;
+  } else {
+    pricePerGas = maxFeePerGas = await client.getGasPrice();
+  }
+
+  const l1FeeIncluded = getChain(chainId)?.rollup === 'arbitrum';
+  const l1Surcharge = l1Fee !== null && !l1FeeIncluded ? l1Fee : BigInt(0);
+
+  const estimate: NetworkFeeEstimate = {
+    gas: request.gas,
+    gasLimit: request.gasLimit,
+    baseFeePerGas,
+    maxFeePerGas,
+    l1Fee,
+    l1FeeIncluded,
+    expectedCost: request.gas * pricePerGas + l1Surcharge,
+    maxCost: request.gasLimit * maxFeePerGas + l1Surcharge,
+    nativeSymbol: nativeCurrency.symbol,
+    nativeDecimals: nativeCurrency.decimals,
+  };
+  console.log('⛽ Network fee estimate:', {
+    chainId,
+    baseFeePerGas: baseFeePerGas?.toString(),
+    l1Fee: l1Fee?.toString(),
+    expectedCost: estimate.expectedCost.toString(),
+    maxCost: estimate.maxCost.toString(),
+  });
+  return estimate;
+}
+
+// Two transactions sent back to back (an approval and the call it allows), priced as one
+export const addNetworkFees = (fee: NetworkFeeEstimate, other: NetworkFeeEstimate): NetworkFeeEstimate => ({
+  ...fee,
+  gas: fee.gas + other.gas,
+  gasLimit: fee.gasLimit + other.gasLimit,
+  l1Fee: fee.l1Fee !== null && other.l1Fee !== null ? fee.l1Fee + other.l1Fee : fee.l1Fee ?? other.l1Fee,
+  expectedCost: fee.expectedCost + other.expectedCost,
+  maxCost: fee.maxCost + other.maxCost,
+});
+
+// Whether `balance` covers the most the wallet may charge for the transaction
+export const canAffordNetworkFee = (fee: NetworkFeeEstimate, balance: bigint): boolean => balance >= fee.maxCost;
+
+// Up to `digits` decimals, "< 0.00…1" for dust that would otherwise round to zero
+const formatSmall = (raw: bigint, decimals: number, digits: number): string => {
+  if (raw > BigInt(0) && raw < BigInt(10) ** BigInt(Math.max(decimals - digits, 0))) {
+    return `< ${formatAmount(toAmount(BigInt(1), digits), { grouping: false })}`;
+  }
+  return formatAmount(toAmount(raw, decimals), { maxFractionDigits: digits });
+};
+
+// Native token amount, e.g. "0.000042 ETH"
+export const formatNativeFee = (wei: bigint, fee: Pick<NetworkFeeEstimate, 'nativeSymbol' | 'nativeDecimals'>): string =>
+  `${formatSmall(wei, fee.nativeDecimals, 6)} ${fee.nativeSymbol}`;
+
+// Price per gas in gwei, e.g. "0.0052 gwei"
+export const formatGwei = (wei: bigint): string => `${formatSmall(wei, 9, 4)} gwei`;
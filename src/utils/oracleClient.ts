@@ -1,8 +1,24 @@
 /**
  * Oracle Client - Frontend utility to get signed balance snapshots
- * for depositWithExtraInfoViaSignature
+ * for depositWithExtraInfoViaSignature. Requests go through the app's
+ * /api/oracle routes, which hold the oracle API key server-side.
  */
 
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  isAddressEqual,
+  recoverTypedDataAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+import { getChain } from '@/constants/chains';
+import { AAVE_VAULT_ABI } from '@/utils/contracts';
+import { getPublicClient } from '@/utils/publicClient';
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, type RetryPolicy } from '@/lib/retry';
+import { ORACLE_ROUTE_DEADLINE_MS } from '@/lib/oracleUpstream';
+
 export interface SignedBalanceSnapshot {
   balance: string;
   nonce: string;
@@ -13,6 +29,114 @@ export interface SignedBalanceSnapshot {
   agentAddress: string;
 }
 
+export interface DepositSnapshotRequest {
+  assets: string;
+  receiver: string;
+  vaultChainId: number;
+}
+
+export type OracleErrorCode =
+  | 'not_configured'      // API key or expected signer missing
+  | 'unavailable'         // Every endpoint failed or timed out after retries
+  | 'rate_limited'        // Too many snapshot requests for this address
+  | 'request_rejected'    // Oracle refused the request (4xx)
+  | 'invalid_response'    // Snapshot fields missing or malformed
+  | 'receiver_mismatch'
+  | 'assets_mismatch'
+  | 'deadline_expired'
+  | 'deadline_too_soon'   // Valid now, but likely to expire before the deposit confirms
+  | 'invalid_signature'   // Signature could not be recovered
+  | 'domain_unavailable'  // Vault's EIP-712 domain could not be read (RPC error)
+  | 'signer_mismatch';    // Recovered signer is not the vault's agent
+
+// What kind of failure the deposit flow is dealing with
+export type OracleFailureKind = 'unavailable' | 'not_configured' | 'rejected' | 'malformed';
+
+const FAILURE_KINDS: Record<OracleErrorCode, OracleFailureKind> = {
+  not_configured: 'not_configured',
+  unavailable: 'unavailable',
+  rate_limited: 'unavailable',
+  request_rejected: 'rejected',
+  invalid_response: 'malformed',
+  receiver_mismatch: 'rejected',
+  assets_mismatch: 'rejected',
+  deadline_expired: 'rejected',
+  deadline_too_soon: 'rejected',
+  invalid_signature: 'malformed',
+  domain_unavailable: 'unavailable',
+  signer_mismatch: 'rejected',
+};
+
+/**
+ * Structured oracle failure - `kind` groups the failure for the UI, `code`
+ * tells callers whether re-requesting a snapshot can help (see `retryable`).
+ */
+export class OracleError extends Error {
+  readonly code: OracleErrorCode;
+  readonly kind: OracleFailureKind;
+  readonly retryable: boolean;
+
+  constructor(code: OracleErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'OracleError';
+    this.code = code;
+    this.kind = FAILURE_KINDS[code];
+    // Transport retries already happened; only a stale snapshot or a failed domain read is worth another go
+    this.retryable = code === 'deadline_expired' || code === 'deadline_too_soon' || code === 'domain_unavailable';
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+// User-facing explanation of an oracle failure
+export const describeOracleFailure = (error: OracleError): string => {
+  switch (error.kind) {
+    case 'unavailable':
+      return error.code === 'rate_limited'
+        ? 'Too many deposit attempts, please wait a minute and try again.'
+        : 'The signing oracle is unavailable right now. Your funds were not moved, please try again later.';
+    case 'not_configured':
+      // A setup gap for this vault, not an outage: retrying or checking service health won't help
+      return 'Signed deposits are not set up for this vault yet, so this deposit cannot go through. Your funds were not moved.';
+    case 'rejected':
+      return `The signing oracle rejected this deposit: ${error.message}`;
+    case 'malformed':
+    default:
+      return 'The signing oracle returned an invalid response. Please try again or contact support.';
+  }
+};
+
+// Browser -> app route. The route retries and fails over between oracle endpoints itself, so the
+// browser makes a single attempt (retrying the route's 5xx would multiply upstream calls and eat the
+// per-address rate limit), with a timeout covering the route's whole deadline.
+const CLIENT_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  attempts: 1,
+  timeoutMs: ORACLE_ROUTE_DEADLINE_MS + 5000, // Headroom for the route's own validation and response
+};
+
+// Seconds a snapshot must stay valid after verification to leave room for signing and confirmation
+const MIN_DEADLINE_HEADROOM_SECONDS = 120;
+
+// Initial request plus one re-request when the snapshot is stale
+const MAX_SNAPSHOT_ATTEMPTS = 2;
+
+// Mirrors struct AaveVault.CrossChainBalanceSnapshot
+const SNAPSHOT_TYPES = {
+  CrossChainBalanceSnapshot: [
+    { name: 'balance', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'assets', type: 'uint256' },
+    { name: 'receiver', type: 'address' },
+  ],
+} as const;
+
+const UINT_PATTERN = /^\d+$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const SIGNATURE_PATTERN = /^0x[a-fA-F0-9]{130}$/;
+
 /**
  * Get a signed balance snapshot from the oracle
  * Required for depositWithExtraInfoViaSignature on the vault
@@ -20,57 +144,185 @@ export interface SignedBalanceSnapshot {
 export async function getDepositSignature(
   assets: string,
   receiver: string,
-  vaultChainId: number
+  vaultChainId: number,
+  policy: RetryPolicy = CLIENT_RETRY_POLICY
 ): Promise<SignedBalanceSnapshot> {
-  const oracleUrl = process.env.NEXT_PUBLIC_ORACLE_URL || 'http://localhost:3001';
-  const apiKey = process.env.NEXT_PUBLIC_ORACLE_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('Oracle API key not configured');
-  }
-
+  let response: Response;
   try {
-    const response = await fetch(`${oracleUrl}/api/oracle/balance-snapshot`, {
+    response = await fetchWithRetry('/api/oracle/balance-snapshot', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
         assets,
         receiver,
         vaultChainId,
       }),
-    });
+    }, policy);
+  } catch (error) {
+    console.error('Failed to get deposit signature from oracle:', error);
+    throw new OracleError('unavailable', 'Oracle request failed: network error or timeout', { cause: error });
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new OracleError(
+      toErrorCode(response.status, errorData.code),
+      errorData.error || `Oracle request failed: ${response.status}`
+    );
+  }
+
+  const snapshot = await response.json().catch(() => null);
+  if (!isSnapshotShape(snapshot)) {
+    throw new OracleError('invalid_response', 'Oracle returned a malformed balance snapshot');
+  }
+  return snapshot;
+}
+
+// Map the route's status/code to an error code; unknown 4xx count as rejections, 5xx as unavailable
+function toErrorCode(status: number, code: unknown): OracleErrorCode {
+  if (status === 429) return 'rate_limited';
+  if (code === 'not_configured' || code === 'invalid_response' || code === 'request_rejected' || code === 'unavailable') {
+    return code;
+  }
+  return status >= 500 ? 'unavailable' : 'request_rejected';
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error || `Oracle request failed: ${response.status}`
-      );
+function isSnapshotShape(value: unknown): value is SignedBalanceSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Record<string, unknown>;
+  return ['balance', 'nonce', 'deadline', 'assets'].every(
+    field => typeof snapshot[field] === 'string' && UINT_PATTERN.test(snapshot[field] as string)
+  )
+    && typeof snapshot.receiver === 'string' && ADDRESS_PATTERN.test(snapshot.receiver)
+    && typeof snapshot.signature === 'string' && SIGNATURE_PATTERN.test(snapshot.signature);
+}
+
+/**
+ * EIP-712 domain of the vault: the registry/manifest entry when set, otherwise
+ * read via EIP-5267. Never guessed - verifying against the wrong domain would
+ * reject every snapshot as signer_mismatch.
+ */
+async function getSnapshotDomain(vaultChainId: number, vaultAddress: Address) {
+  const configured = getChain(vaultChainId)?.oracleDomain;
+  if (configured) {
+    return { ...configured, chainId: vaultChainId, verifyingContract: vaultAddress };
+  }
+
+  try {
+    const [, name, version] = await getPublicClient(vaultChainId).readContract({
+      address: vaultAddress,
+      abi: AAVE_VAULT_ABI,
+      functionName: 'eip712Domain',
+    });
+    return { name, version, chainId: vaultChainId, verifyingContract: vaultAddress };
+  } catch (error) {
+    // A vault without EIP-5267 needs its domain in the registry; anything else is a transient RPC failure
+    const unsupported = error instanceof BaseError &&
+      !!error.walk(cause => cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError);
+    if (unsupported) {
+      throw new OracleError('not_configured', `Vault on chain ${vaultChainId} has no EIP-5267 domain and none is configured`, { cause: error });
     }
+    throw new OracleError('domain_unavailable', `Could not read the vault's EIP-712 domain on chain ${vaultChainId}`, { cause: error });
+  }
+}
+
+/**
+ * Check a snapshot before it is submitted: it must be for this receiver and
+ * amount, have enough deadline headroom, and be signed by the vault's agent.
+ * Throws an OracleError describing the first failed check.
+ */
+export async function verifyDepositSnapshot(
+  snapshot: SignedBalanceSnapshot,
+  request: DepositSnapshotRequest
+): Promise<void> {
+  const chain = getChain(request.vaultChainId);
+  if (!chain?.vaultAddress || !chain.oracleSigner) {
+    throw new OracleError('not_configured', `No oracle signer configured for chain ${request.vaultChainId}`);
+  }
+
+  if (!isAddressEqual(snapshot.receiver as Address, request.receiver as Address)) {
+    throw new OracleError('receiver_mismatch', `Snapshot receiver ${snapshot.receiver} does not match ${request.receiver}`);
+  }
+
+  if (BigInt(snapshot.assets) !== BigInt(request.assets)) {
+    throw new OracleError('assets_mismatch', `Snapshot assets ${snapshot.assets} do not match requested ${request.assets}`);
+  }
 
-    const snapshot: SignedBalanceSnapshot = await response.json();
-    return snapshot;
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const deadline = BigInt(snapshot.deadline);
+  if (deadline <= now) {
+    throw new OracleError('deadline_expired', 'Oracle snapshot has expired');
+  }
+  if (deadline - now < BigInt(MIN_DEADLINE_HEADROOM_SECONDS)) {
+    throw new OracleError('deadline_too_soon', `Oracle snapshot expires in ${deadline - now}s, not enough time to confirm`);
+  }
+
+  const domain = await getSnapshotDomain(request.vaultChainId, chain.vaultAddress);
+  let signer: Address;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain,
+      types: SNAPSHOT_TYPES,
+      primaryType: 'CrossChainBalanceSnapshot',
+      message: {
+        balance: BigInt(snapshot.balance),
+        nonce: BigInt(snapshot.nonce),
+        deadline,
+        assets: BigInt(snapshot.assets),
+        receiver: snapshot.receiver as Address,
+      },
+      signature: snapshot.signature as Hex,
+    });
   } catch (error) {
-    console.error('Failed to get deposit signature from oracle:', error);
-    throw error;
+    throw new OracleError('invalid_signature', 'Oracle snapshot signature could not be recovered', { cause: error });
+  }
+
+  if (!isAddressEqual(signer, chain.oracleSigner)) {
+    throw new OracleError('signer_mismatch', `Oracle snapshot signed by ${signer}, expected ${chain.oracleSigner}`);
   }
 }
 
 /**
- * Check oracle health status
+ * Verify a snapshot (fetching one if none is given), re-requesting it when the
+ * failure is retryable such as a stale deadline. Returns a verified snapshot.
  */
-export async function checkOracleHealth(): Promise<boolean> {
-  const oracleUrl = process.env.NEXT_PUBLIC_ORACLE_URL || 'http://localhost:3001';
+export async function getVerifiedDepositSnapshot(
+  request: DepositSnapshotRequest,
+  initial?: SignedBalanceSnapshot
+): Promise<SignedBalanceSnapshot> {
+  let snapshot = initial;
 
+  for (let attempt = 1; ; attempt++) {
+    if (!snapshot) {
+      snapshot = await getDepositSignature(request.assets, request.receiver, request.vaultChainId);
+    }
+
+    try {
+      await verifyDepositSnapshot(snapshot, request);
+      return snapshot;
+    } catch (error) {
+      if (!(error instanceof OracleError) || !error.retryable || attempt >= MAX_SNAPSHOT_ATTEMPTS) {
+        throw error;
+      }
+      // A failed domain read is retried with the same snapshot, a stale one is re-requested
+      if (error.code !== 'domain_unavailable') {
+        console.warn(`⚠️ Oracle snapshot rejected (${error.code}), requesting a new one...`);
+        snapshot = undefined;
+      }
+    }
+  }
+}
+
+/**
+ * Check oracle health status
+ */
+export async function checkOracleHealth(timeoutMs: number = 8000): Promise<boolean> {
   try {
-    const response = await fetch(`${oracleUrl}/health`);
+    const response = await fetchWithRetry('/api/oracle/health', {}, { ...DEFAULT_RETRY_POLICY, attempts: 1, timeoutMs });
     return response.ok;
   } catch {
     return false;
   }
 }
-
-
-
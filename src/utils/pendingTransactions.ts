@@ -0,0 +1,93 @@
+/**
+ * Operator helpers for agent-signed transactions that the relayer has not
+ * broadcast yet: check where each one stands on its target chain and push the
+ * raw transaction through a public RPC when needed.
+ */
+
+import {
+  BaseError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hex,
+  type TransactionSerialized,
+} from 'viem';
+import { sendRawTransaction } from 'viem/actions';
+import { isVaultChain, getChain } from '@/constants/chains';
+import { getPublicClient } from '@/utils/publicClient';
+import type { DecodedSignedTransaction } from '@/utils/signedTransactions';
+
+export type BroadcastStatus =
+  | 'unsupported_chain' // Target chain is not in the registry, can't be checked or sent from here
+  | 'not_broadcast'     // Unknown to the chain and the signer's nonce is still free
+  | 'in_mempool'        // Seen by the node but not mined yet
+  | 'mined'             // Included and succeeded
+  | 'reverted'          // Included but reverted
+  | 'nonce_used'        // Another transaction already used this nonce, this one can never be mined
+  | 'unknown';          // The RPC failed, so the transaction may well be mined or in the mempool
+
+export interface BroadcastCheck {
+  status: BroadcastStatus;
+  blockNumber?: bigint;
+  error?: string;       // Why the status is 'unknown'
+}
+
+// Null when the node doesn't know the hash; RPC failures are rethrown so they never read as "not found"
+const unlessNotFound = (error: unknown): null => {
+  if (error instanceof TransactionNotFoundError || error instanceof TransactionReceiptNotFoundError) return null;
+  throw error;
+};
+
+// Whether the registry has RPCs for the transaction's chain
+export const canBroadcast = (tx: DecodedSignedTransaction): boolean =>
+  tx.chainId !== undefined && !!getChain(tx.chainId);
+
+/**
+ * Check a signed transaction on its target chain: by hash first (receipt, then
+ * mempool), then by the signer's confirmed nonce to spot replaced transactions.
+ * Only a clean "not found" on every lookup reads as 'not_broadcast'; any RPC
+ * failure gives 'unknown' so the operator isn't offered a broadcast blindly.
+ */
+export async function checkBroadcastStatus(tx: DecodedSignedTransaction): Promise<BroadcastCheck> {
+  if (!canBroadcast(tx)) return { status: 'unsupported_chain' };
+  const client = getPublicClient(tx.chainId as number);
+
+  try {
+    const receipt = await client.getTransactionReceipt({ hash: tx.hash }).catch(unlessNotFound);
+    if (receipt) {
+      return { status: receipt.status === 'success' ? 'mined' : 'reverted', blockNumber: receipt.blockNumber };
+    }
+
+    const pending = await client.getTransaction({ hash: tx.hash }).catch(unlessNotFound);
+    if (pending) return { status: 'in_mempool' };
+
+    if (tx.signer && tx.nonce !== undefined) {
+      const confirmedNonce = await client.getTransactionCount({ address: tx.signer, blockTag: 'latest' });
+      if (confirmedNonce > tx.nonce) return { status: 'nonce_used' };
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not check ${tx.hash} on chain ${tx.chainId}:`, error);
+    return { status: 'unknown', error: error instanceof BaseError ? error.shortMessage : String(error) };
+  }
+
+  return { status: 'not_broadcast' };
+}
+
+/**
+ * Send the raw signed transaction to its target chain. Returns the hash
+ * reported by the node, which matches `tx.hash` for a valid transaction.
+ */
+export async function broadcastSignedTransaction(tx: DecodedSignedTransaction): Promise<Hex> {
+  if (!canBroadcast(tx)) {
+    throw new Error(`Cannot broadcast: chain ${tx.chainId ?? 'unknown'} is not supported`);
+  }
+  return sendRawTransaction(getPublicClient(tx.chainId as number), {
+    serializedTransaction: tx.raw as TransactionSerialized,
+  });
+}
+
+// Vault chains first, then other known chains, then unknown chain ids
+export const compareChains = (a: number | undefined, b: number | undefined): number => {
+  const rank = (chainId: number | undefined) =>
+    chainId === undefined ? 2 : isVaultChain(chainId) ? 0 : getChain(chainId) ? 1 : 2;
+  return rank(a) - rank(b) || (a ?? 0) - (b ?? 0);
+};
@@ -0,0 +1,23 @@
+import { createPublicClient, fallback, http, type PublicClient } from 'viem';
+import { getChain } from '@/constants/chains';
+
+// Read-only clients per chain, independent of the connected wallet and shared by every view. RPC urls are tried in order.
+const clients = new Map<number, PublicClient>();
+
+export const getPublicClient = (chainId: number): PublicClient => {
+  const cached = clients.get(chainId);
+  if (cached) return cached;
+
+  const chain = getChain(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
+  }
+
+  const client = createPublicClient({
+    chain: chain.viemChain,
+    transport: fallback(chain.rpcUrls.map(url => http(url))),
+    batch: { multicall: true }, // Concurrent reads are aggregated through Multicall3 where the chain has it
+  }) as PublicClient;
+  clients.set(chainId, client);
+  return client;
+};
@@ -0,0 +1,171 @@
+/**
+ * Correlates NEAR activity logs with the EVM transactions that realised them:
+ * decodes the signed transactions attached to each log, finds their receipts
+ * on the source / destination chains, reads the CCTP and Aave events and
+ * compares the realised amount with the expected one.
+ */
+
+import { parseEventLogs, type Hex, type TransactionReceipt } from 'viem';
+import { getChain } from '@/constants/chains';
+import { tryToAmount } from '@/lib/amount';
+import { AAVE_POOL_ABI, CCTP_TOKEN_MESSENGER_ABI } from '@/utils/contracts';
+import { getPublicClient } from '@/utils/publicClient';
+import { getLogTimeMs } from '@/utils/nearActivityLog';
+import { decodeSignedTransaction, type DecodedSignedTransaction } from '@/utils/signedTransactions';
+import type { ActivityLog } from '@/utils/nearContract';
+
+export type RebalanceStepKind = 'logged' | 'approve' | 'burn' | 'mint' | 'withdraw' | 'supply' | 'other';
+
+export type RebalanceStepStatus =
+  | 'recorded'          // The NEAR log entry itself
+  | 'confirmed'
+  | 'reverted'
+  | 'not_found'         // Signed but not (yet) on chain
+  | 'unsupported_chain'
+  | 'undecodable';
+
+export interface RebalanceStep {
+  kind: RebalanceStepKind;
+  status: RebalanceStepStatus;
+  chainId?: number;
+  hash?: Hex;
+  blockNumber?: bigint;
+  timestamp?: number;      // ms since epoch
+  amount?: bigint;         // From the step's event when available, otherwise its calldata
+  chainMismatch?: boolean; // Burn not on the source chain, or mint/supply not on the destination chain
+  summary: string;
+}
+
+export interface RebalanceCorrelation {
+  nonce: number;
+  log: ActivityLog;
+  timeline: RebalanceStep[];     // In time order, starting with the NEAR log
+  expectedAmount: bigint;
+  realisedAmount: bigint | null; // actual_amount from the log, else the minted / supplied amount on chain
+  slippage: bigint | null;       // expected - realised, in token units
+  slippageBps: number | null;
+  complete: boolean;             // Every step is confirmed on chain
+}
+
+const STEP_KINDS: Record<string, RebalanceStepKind> = {
+  'ERC20.approve': 'approve',
+  'TokenMessenger.depositForBurn': 'burn',
+  'MessageTransmitter.receiveMessage': 'mint',
+  'AavePool.withdraw': 'withdraw',
+  'AavePool.supply': 'supply',
+};
+
+const toHex = (bytes: number[]) => bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Log transactions are stored either as the bare serialized tx or prefixed with a payload type byte
+async function decodeLogTransaction(bytes: number[]): Promise<DecodedSignedTransaction | null> {
+  const candidates = [bytes, bytes.slice(1)];
+  for (const candidate of candidates) {
+    if (candidate.length === 0) continue;
+    const result = await decodeSignedTransaction({ payload_type: bytes[0], raw_transaction: toHex(candidate) });
+    if (result.decoded) return result;
+  }
+  return null;
+}
+
+// Amount from the step's own event, which reflects what actually moved
+function eventAmount(kind: RebalanceStepKind, receipt: TransactionReceipt): bigint | undefined {
+  if (kind === 'burn') {
+    return parseEventLogs({ abi: CCTP_TOKEN_MESSENGER_ABI, eventName: 'DepositForBurn', logs: receipt.logs })[0]?.args.amount;
+  }
+  if (kind === 'mint') {
+    return parseEventLogs({ abi: CCTP_TOKEN_MESSENGER_ABI, eventName: 'MintAndWithdraw', logs: receipt.logs })[0]?.args.amount;
+  }
+  if (kind === 'supply') {
+    return parseEventLogs({ abi: AAVE_POOL_ABI, eventName: 'Supply', logs: receipt.logs })[0]?.args.amount;
+  }
+  return undefined;
+}
+
+function calldataAmount(tx: DecodedSignedTransaction): bigint | undefined {
+  if (!tx.call) return undefined;
+  const { contract, args } = tx.call;
+  const amount = contract === 'TokenMessenger' ? args[0] : contract === 'AavePool' || contract === 'ERC20' ? args[1] : undefined;
+  return typeof amount === 'bigint' ? amount : undefined;
+}
+
+async function resolveStep(tx: DecodedSignedTransaction, log: ActivityLog): Promise<RebalanceStep> {
+  const kind = tx.call ? STEP_KINDS[`${tx.call.contract}.${tx.call.functionName}`] ?? 'other' : 'other';
+  const expectedChain = kind === 'burn' || kind === 'withdraw' ? log.source_chain
+    : kind === 'mint' || kind === 'supply' ? log.destination_chain
+    : undefined;
+  const step: RebalanceStep = {
+    kind,
+    status: 'not_found',
+    chainId: tx.chainId,
+    hash: tx.hash,
+    amount: calldataAmount(tx),
+    chainMismatch: expectedChain !== undefined && tx.chainId !== expectedChain,
+    summary: tx.summary,
+  };
+
+  if (tx.chainId === undefined || !getChain(tx.chainId)) {
+    return { ...step, status: 'unsupported_chain' };
+  }
+
+  const client = getPublicClient(tx.chainId);
+  const receipt = await client.getTransactionReceipt({ hash: tx.hash }).catch(() => null);
+  if (!receipt) return step;
+
+  const block = await client.getBlock({ blockNumber: receipt.blockNumber }).catch(() => null);
+  return {
+    ...step,
+    status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+    blockNumber: receipt.blockNumber,
+    timestamp: block ? Number(block.timestamp) * 1000 : undefined,
+    amount: (receipt.status === 'success' ? eventAmount(kind, receipt) : undefined) ?? step.amount,
+  };
+}
+
+/**
+ * Build the timeline for one activity log. RPC failures for a step leave it
+ * `not_found` rather than failing the whole correlation.
+ */
+export async function correlateActivityLog(log: ActivityLog): Promise<RebalanceCorrelation> {
+  const decoded = await Promise.all((log.transactions ?? []).map(decodeLogTransaction));
+
+  const steps = await Promise.all(decoded.map((tx, index): Promise<RebalanceStep> => tx
+    ? resolveStep(tx, log)
+    : Promise.resolve({ kind: 'other', status: 'undecodable', summary: `Transaction ${index + 1} could not be decoded` })
+  ));
+
+  const logged: RebalanceStep = {
+    kind: 'logged',
+    status: 'recorded',
+    chainId: log.source_chain,
+    timestamp: getLogTimeMs(log),
+    amount: tryToAmount(log.expected_amount)?.raw ?? undefined,
+    summary: `${log.activity_type} recorded on NEAR (nonce ${log.nonce})`,
+  };
+  // Confirmed steps by block time, unconfirmed ones keep their signing order at the end
+  const timeline = [logged, ...steps.sort((a, b) =>
+    (a.timestamp ?? Number.MAX_SAFE_INTEGER) - (b.timestamp ?? Number.MAX_SAFE_INTEGER)
+  )];
+
+  const expectedAmount = tryToAmount(log.expected_amount)?.raw ?? BigInt(0);
+  const arrival = [...steps].reverse().find(step => (step.kind === 'supply' || step.kind === 'mint') && step.status === 'confirmed');
+  const realisedAmount = tryToAmount(log.actual_amount)?.raw ?? arrival?.amount ?? null;
+
+  const slippage = realisedAmount !== null ? expectedAmount - realisedAmount : null;
+  const slippageBps = slippage !== null && expectedAmount > BigInt(0)
+    ? Number((slippage * BigInt(10000)) / expectedAmount)
+    : null;
+
+  return {
+    nonce: log.nonce,
+    log,
+    timeline,
+    expectedAmount,
+    realisedAmount,
+    slippage,
+    slippageBps,
+    complete: steps.length > 0 && steps.every(step => step.status === 'confirmed'),
+  };
+}
+
+export const correlateActivityLogs = (logs: ActivityLog[]) => Promise.all(logs.map(correlateActivityLog));
@@ -0,0 +1,164 @@
+/**
+ * Decoder for the signed EVM transactions the rebalancer agent stores on NEAR
+ * (get_signed_transactions). Parses the serialized transaction, decodes the
+ * calldata against the contracts the agent talks to and recovers the signer.
+ */
+
+import {
+  decodeFunctionData,
+  getAddress,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  slice,
+  type Abi,
+  type Address,
+  type Hex,
+  type TransactionSerialized,
+} from 'viem';
+import { getChain, getChainByCctpDomain, getChainName } from '@/constants/chains';
+import {
+  AAVE_POOL_ABI,
+  AAVE_VAULT_ABI,
+  CCTP_MESSAGE_TRANSMITTER_ABI,
+  CCTP_TOKEN_MESSENGER_ABI,
+  ERC20_ABI,
+} from '@/utils/contracts';
+import type { SignedTransaction } from '@/utils/nearContract';
+import { formatAmount, USDC_DECIMALS } from '@/lib/amount';
+
+export type KnownContract = 'TokenMessenger' | 'MessageTransmitter' | 'AaveVault' | 'AavePool' | 'ERC20';
+
+// Tried in order; the first ABI containing the selector wins
+const KNOWN_ABIS: { contract: KnownContract; abi: Abi }[] = [
+  { contract: 'TokenMessenger', abi: CCTP_TOKEN_MESSENGER_ABI },
+  { contract: 'MessageTransmitter', abi: CCTP_MESSAGE_TRANSMITTER_ABI },
+  { contract: 'AaveVault', abi: AAVE_VAULT_ABI },
+  { contract: 'AavePool', abi: AAVE_POOL_ABI },
+  { contract: 'ERC20', abi: ERC20_ABI },
+];
+
+export interface DecodedCall {
+  contract: KnownContract;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+export interface DecodedSignedTransaction {
+  payloadType: number;
+  raw: Hex;
+  hash: Hex;
+  type: string | undefined;
+  chainId: number | undefined;
+  to: Address | null;
+  nonce: number | undefined;
+  value: bigint;
+  data: Hex | undefined;
+  signer: Address | null;   // null when the transaction is unsigned or recovery failed
+  call: DecodedCall | null; // null for plain transfers or unknown selectors
+  summary: string;
+}
+
+export interface UndecodableSignedTransaction {
+  payloadType: number;
+  raw: Hex;
+  error: string;
+}
+
+export type SignedTransactionDecodeResult =
+  | ({ decoded: true } & DecodedSignedTransaction)
+  | ({ decoded: false } & UndecodableSignedTransaction);
+
+export const decodeCalldata = (data: Hex | undefined): DecodedCall | null => {
+  if (!data || data === '0x') return null;
+
+  for (const { contract, abi } of KNOWN_ABIS) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi, data });
+      return { contract, functionName, args: args ?? [] };
+    } catch {
+      // Selector not in this ABI, try the next one
+    }
+  }
+  return null;
+};
+
+// USDC amounts in the agent's transactions always use 6 decimals
+const formatUsdc = (amount: unknown) =>
+  typeof amount === 'bigint' ? `${formatAmount({ raw: amount, decimals: USDC_DECIMALS })} USDC` : 'unknown amount';
+
+// One-line description of what the transaction does, for the activity feed
+export const describeCall = (call: DecodedCall | null, chainId: number | undefined): string => {
+  const chainName = chainId !== undefined ? getChainName(chainId) : 'unknown chain';
+  if (!call) return `Transaction on ${chainName}`;
+
+  const { contract, functionName, args } = call;
+  switch (`${contract}.${functionName}`) {
+    case 'TokenMessenger.depositForBurn': {
+      const testnet = chainId !== undefined ? getChain(chainId)?.testnet ?? false : false;
+      const destination = getChainByCctpDomain(Number(args[1]), testnet);
+      const recipient = getAddress(slice(args[2] as Hex, 12));
+      return `CCTP burn ${formatUsdc(args[0])} on ${chainName} → ${destination?.name ?? `domain ${args[1]}`} (${recipient})`;
+    }
+    case 'MessageTransmitter.receiveMessage':
+      return `CCTP mint on ${chainName}`;
+    case 'AavePool.supply':
+      return `Aave supply ${formatUsdc(args[1])} on ${chainName}`;
+    case 'AavePool.withdraw':
+      return `Aave withdraw ${formatUsdc(args[1])} on ${chainName}`;
+    case 'ERC20.approve':
+      return `Approve ${formatUsdc(args[1])} for ${args[0]} on ${chainName}`;
+    default:
+      return `${contract}.${functionName} on ${chainName}`;
+  }
+};
+
+/**
+ * Decode one signed transaction payload. Never throws - payloads that are not
+ * a valid serialized transaction come back with `decoded: false` and the reason.
+ */
+export async function decodeSignedTransaction(tx: SignedTransaction): Promise<SignedTransactionDecodeResult> {
+  const raw = `0x${tx.raw_transaction}` as Hex;
+
+  let parsed: ReturnType<typeof parseTransaction>;
+  try {
+    parsed = parseTransaction(raw as TransactionSerialized);
+  } catch (error) {
+    return {
+      decoded: false,
+      payloadType: tx.payload_type,
+      raw,
+      error: error instanceof Error ? error.message.split('\n')[0] : 'Not a serialized transaction',
+    };
+  }
+
+  let signer: Address | null = null;
+  if (parsed.r && parsed.s) {
+    try {
+      signer = await recoverTransactionAddress({ serializedTransaction: raw as TransactionSerialized });
+    } catch (error) {
+      console.warn('⚠️ Could not recover signer of signed transaction:', error);
+    }
+  }
+
+  const call = decodeCalldata(parsed.data);
+
+  return {
+    decoded: true,
+    payloadType: tx.payload_type,
+    raw,
+    hash: keccak256(raw),
+    type: parsed.type,
+    chainId: parsed.chainId,
+    to: parsed.to ?? null,
+    nonce: parsed.nonce,
+    value: parsed.value ?? BigInt(0),
+    data: parsed.data,
+    signer,
+    call,
+    summary: describeCall(call, parsed.chainId),
+  };
+}
+
+export const decodeSignedTransactions = (transactions: SignedTransaction[]) =>
+  Promise.all(transactions.map(decodeSignedTransaction));
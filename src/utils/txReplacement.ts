@@ -0,0 +1,101 @@
+/**
+ * Same-nonce replacements for a wallet transaction that is stuck pending:
+ * speed-up resends the same call with higher fees, cancel sends an empty
+ * self-transfer that takes the nonce instead. Both rely on the wallet sending
+ * with the nonce set here; one that ignores it sends a new transaction, which
+ * for a speed-up runs the deposit or withdrawal a second time. sentWithNonce
+ * tells the caller when that happened.
+ */
+
+import type { Address, Hash, Hex } from 'viem';
+import { getPublicClient } from '@/utils/publicClient';
+
+// Nodes only accept a replacement that raises every fee field by at least 10%
+const FEE_BUMP_PERCENT = BigInt(125);
+const CANCEL_GAS = BigInt(21000);
+
+type ReplacementFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+export type ReplacementRequest = {
+  account: Address;
+  chainId: number;
+  to: Address;
+  data: Hex;
+  value: bigint;
+  gas: bigint;
+  nonce: number;
+} & ReplacementFees;
+
+const bump = (fee: bigint) => fee * FEE_BUMP_PERCENT / BigInt(100);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+// Pending transaction `hash` and fees that outbid it. Throws when it is already mined or unknown
+const loadReplaceable = async (chainId: number, hash: Hash) => {
+  const client = getPublicClient(chainId);
+  const original = await client.getTransaction({ hash }).catch(() => null);
+  if (!original) throw new Error('Transaction not found, it may have been dropped or replaced already');
+  if (original.blockNumber !== null) throw new Error('Transaction is already confirmed');
+
+  // Bumped original fees, or today's fees when the network moved further than that
+  let fees: ReplacementFees;
+  if (original.maxFeePerGas !== undefined && original.maxPriorityFeePerGas !== undefined) {
+    const current = await client.estimateFeesPerGas();
+    fees = {
+      maxFeePerGas: max(bump(original.maxFeePerGas), current.maxFeePerGas),
+      maxPriorityFeePerGas: max(bump(original.maxPriorityFeePerGas), current.maxPriorityFeePerGas),
+    };
+  } else {
+    fees = { gasPrice: max(bump(original.gasPrice ?? BigInt(0)), await client.getGasPrice()) };
+  }
+  return { original, fees };
+};
+
+// Transaction to send from the wallet to speed up `hash`: the same call, nonce and gas limit at higher fees
+export async function buildSpeedUpRequest(chainId: number, hash: Hash): Promise<ReplacementRequest> {
+  const { original, fees } = await loadReplaceable(chainId, hash);
+  if (!original.to) throw new Error('Contract deployments cannot be sped up here');
+
+  return {
+    account: original.from,
+    chainId,
+    nonce: original.nonce,
+    to: original.to,
+    data: original.input,
+    value: original.value,
+    gas: original.gas,
+    ...fees,
+  };
+}
+
+// Transaction to send from the wallet to cancel `hash`
+export async function buildCancelRequest(chainId: number, hash: Hash): Promise<ReplacementRequest> {
+  const { original, fees } = await loadReplaceable(chainId, hash);
+
+  return {
+    account: original.from,
+    chainId,
+    nonce: original.nonce,
+    to: original.from,
+    data: '0x' as Hex,
+    value: BigInt(0),
+    gas: CANCEL_GAS,
+    ...fees,
+  };
+}
+
+const NONCE_CHECK_ATTEMPTS = 5;
+const NONCE_CHECK_DELAY_MS = 2000;
+
+// Whether the wallet sent `hash` with `nonce`, i.e. it honoured the replacement nonce. Null when the RPC never saw it
+export async function sentWithNonce(chainId: number, hash: Hash, nonce: number): Promise<boolean | null> {
+  const client = getPublicClient(chainId);
+  // A just-sent transaction can take a moment to reach the read RPC
+  for (let attempt = 0; attempt < NONCE_CHECK_ATTEMPTS; attempt++) {
+    const sent = await client.getTransaction({ hash }).catch(() => null);
+    if (sent) return sent.nonce === nonce;
+    await new Promise(resolve => setTimeout(resolve, NONCE_CHECK_DELAY_MS));
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+/**
+ * Batched vault reads. Every per-vault and per-user value for a chain is read
+ * in a single Multicall3 call, so all values come from the same block and
+ * cost one RPC round trip instead of one per value.
+ */
+
+import type { Address, ContractFunctionParameters } from 'viem';
+import { getChain } from '@/constants/chains';
+import { AAVE_VAULT_ABI, ERC20_ABI } from '@/utils/contracts';
+import { getPublicClient } from '@/utils/publicClient';
+
+// Undefined fields mean the read failed or there was no account to read for
+export interface VaultState {
+  chainId: number;
+  totalAssets?: bigint;
+  totalSupply?: bigint;
+  usdcBalance?: bigint;
+  allowance?: bigint;   // USDC allowance granted to the vault
+  shares?: bigint;
+  maxRedeem?: bigint;
+  maxDeposit?: bigint;
+  maxWithdraw?: bigint;
+}
+
+type ReadResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+// Order matters: parseVaultState reads results by position
+const VAULT_FIELDS = ['totalAssets', 'totalSupply'] as const;
+const USER_FIELDS = ['usdcBalance', 'allowance', 'shares', 'maxRedeem', 'maxDeposit', 'maxWithdraw'] as const;
+
+/**
+ * Calls for one chain's vault state, for multicall or wagmi's useReadContracts.
+ * Null when the chain has no vault (or no USDC address to read the account's balance from).
+ */
+export const getVaultStateContracts = (chainId: number, account?: Address): ContractFunctionParameters[] | null => {
+  const chain = getChain(chainId);
+  if (!chain?.vaultAddress || (account && !chain.assetAddress)) return null;
+
+  const vault = { address: chain.vaultAddress, abi: AAVE_VAULT_ABI, chainId } as const;
+
+  const contracts: ContractFunctionParameters[] = [
+    { ...vault, functionName: 'totalAssets' },
+    { ...vault, functionName: 'totalSupply' },
+  ];
+  if (account && chain.assetAddress) {
+    const usdc = { address: chain.assetAddress, abi: ERC20_ABI, chainId } as const;
+    contracts.push(
+      { ...usdc, functionName: 'balanceOf', args: [account] },
+      { ...usdc, functionName: 'allowance', args: [account, chain.vaultAddress] },
+      { ...vault, functionName: 'balanceOf', args: [account] },
+      { ...vault, functionName: 'maxRedeem', args: [account] },
+      { ...vault, functionName: 'maxDeposit', args: [account] },
+      { ...vault, functionName: 'maxWithdraw', args: [account] },
+    );
+  }
+  return contracts;
+};
+
+// Map multicall results (in getVaultStateContracts order) back to named fields
+export const parseVaultState = (chainId: number, results: readonly ReadResult[] | undefined): VaultState => {
+  const state: VaultState = { chainId };
+  if (!results) return state;
+
+  [...VAULT_FIELDS, ...USER_FIELDS].forEach((field, index) => {
+    const read = results[index];
+    if (read?.status === 'success' && typeof read.result === 'bigint') {
+      state[field] = read.result;
+    }
+  });
+  return state;
+};
+
+/**
+ * Read a chain's vault state (and the account's, when given) in one call.
+ * Chains without Multicall3 (e.g. a local node) fall back to parallel reads.
+ */
+export async function readVaultState(chainId: number, account?: Address): Promise<VaultState> {
+  const contracts = getVaultStateContracts(chainId, account);
+  if (!contracts) return { chainId };
+
+  const client = getPublicClient(chainId);
+  if (client.chain?.contracts?.multicall3) {
+    const results = await client.multicall({ contracts, allowFailure: true });
+    return parseVaultState(chainId, results as ReadResult[]);
+  }
+
+  const results = await Promise.allSettled(contracts.map(contract => client.readContract(contract)));
+  return parseVaultState(chainId, results.map((result): ReadResult => result.status === 'fulfilled'
+    ? { status: 'success', result: result.value }
+    : { status: 'failure', error: result.reason }
+  ));
+}
+
+// One batched read per chain, all chains in parallel
+export const readVaultStates = (chainIds: number[], account?: Address): Promise<VaultState[]> =>
+  Promise.all(chainIds.map(chainId => readVaultState(chainId, account)));
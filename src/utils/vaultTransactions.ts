@@ -0,0 +1,210 @@
+/**
+ * Vault transaction builders. Every action component sends the same approve,
+ * deposit and withdraw calls, so they are built here and handed to
+ * useVaultTransaction rather than assembled inline by each UI.
+ */
+
+import { encodeFunctionData, type Abi, type Address, type Hex } from 'viem';
+import { AAVE_VAULT_ABI, ERC20_ABI, getContractAddress, getUSDCAddress } from '@/utils/contracts';
+import { getDepositSignature, getVerifiedDepositSnapshot, OracleError } from '@/utils/oracleClient';
+import { supportsSignatureDeposits } from '@/constants/chains';
+import { getPublicClient } from '@/utils/publicClient';
+import { estimateNetworkFee, type NetworkFeeEstimate } from '@/utils/networkFee';
+import { getApprovalAmount, loadApprovalPolicy } from '@/lib/approvalPolicy';
+
+// Explicit gas limits so wallets skip their own pre-flight simulation, which gives
+// false negatives for vault calls on testnets (MetaMask). Used when estimation fails
+export const VAULT_GAS_LIMITS = {
+  approve: BigInt(100000),
+  vault: BigInt(350000),
+} as const;
+
+export interface VaultWriteRequest {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+  gas?: bigint;
+}
+
+export interface VaultTxSimulation {
+  functionName: string; // Function the result belongs to
+  result: unknown;      // Shares for deposit/withdraw, assets for redeem, success flag for approve
+  gas: bigint | null;   // Estimated gas units, null when estimation failed
+  fee: NetworkFeeEstimate | null; // Native-token cost, when requested and readable
+  simulated: boolean;   // False when only priced (see priceVaultRequest), the dry-run happens after the approval
+  approvalFee?: NetworkFeeEstimate | null; // Approval sent first, priced in the same review
+}
+
+// Headroom over the gas estimate for state that changes between simulation and inclusion
+const GAS_HEADROOM_PERCENT = BigInt(120);
+
+const vaultAddress = (chainId: number) => getContractAddress(chainId) as Address;
+const usdcAddress = (chainId: number) => getUSDCAddress(chainId) as Address;
+
+// USDC approval for a deposit of `assets`, sized by the wallet's approval policy
+export const buildApprovalRequest = (chainId: number, owner: Address, assets: bigint): VaultWriteRequest => {
+  const policy = loadApprovalPolicy(owner);
+  const approvalAmount = getApprovalAmount(policy, assets);
+  console.log('✅ Building approval', { policy: policy.mode, approvalAmount: approvalAmount.toString() });
+
+  return {
+    address: usdcAddress(chainId),
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [vaultAddress(chainId), approvalAmount],
+    gas: VAULT_GAS_LIMITS.approve,
+  };
+};
+
+export interface DepositRequestOptions {
+  chainId: number;
+  receiver: Address;
+  assets: bigint;
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Deposit call for `assets`. Fetches the oracle's cross-chain balance snapshot:
+ * a plain deposit when nothing is invested cross-chain yet (the contract requires
+ * a non-zero balance for signed deposits), otherwise a verified signed deposit.
+ */
+export async function buildDepositRequest({ chainId, receiver, assets, onProgress }: DepositRequestOptions): Promise<VaultWriteRequest> {
+  onProgress?.('Getting cross-chain signature...');
+  console.log('🔐 Requesting signature from oracle...');
+  const snapshot = await getDepositSignature(assets.toString(), receiver, chainId);
+  console.log('✅ Signature received from oracle:', snapshot);
+
+  if (BigInt(snapshot.balance) === BigInt(0)) {
+    console.log('⚠️ No cross-chain assets yet, using regular deposit method');
+    onProgress?.('Processing deposit...');
+    return {
+      address: vaultAddress(chainId),
+      abi: AAVE_VAULT_ABI,
+      functionName: 'deposit',
+      args: [assets, receiver],
+      gas: VAULT_GAS_LIMITS.vault,
+    };
+  }
+
+  // Without a known signer the snapshot can't be checked, so signature deposits are off on this chain
+  if (!supportsSignatureDeposits(chainId)) {
+    throw new OracleError('not_configured', `No oracle signer configured for chain ${chainId}`);
+  }
+  // Refuse snapshots that don't match this deposit or weren't signed by the vault's agent
+  onProgress?.('Verifying cross-chain signature...');
+  const verified = await getVerifiedDepositSnapshot(
+    { assets: assets.toString(), receiver, vaultChainId: chainId },
+    snapshot
+  );
+  console.log('🔐 Using deposit with signature (cross-chain assets: ' + verified.balance + ')');
+  onProgress?.('Deposit with signature in progress...');
+
+  return {
+    address: vaultAddress(chainId),
+    abi: AAVE_VAULT_ABI,
+    functionName: 'depositWithExtraInfoViaSignature',
+    args: [
+      assets,
+      receiver,
+      {
+        balance: BigInt(verified.balance),
+        nonce: BigInt(verified.nonce),
+        deadline: BigInt(verified.deadline),
+        assets: BigInt(verified.assets),
+        receiver: verified.receiver as Address,
+      },
+      verified.signature as Hex,
+    ],
+    gas: VAULT_GAS_LIMITS.vault,
+  };
+}
+
+// Exact `shares` redeem exits without dust; `assets` withdraws a USDC amount
+export type WithdrawAmount = { shares: bigint } | { assets: bigint };
+
+export const buildWithdrawRequest = (chainId: number, owner: Address, amount: WithdrawAmount): VaultWriteRequest => {
+  const base = { address: vaultAddress(chainId), abi: AAVE_VAULT_ABI, gas: VAULT_GAS_LIMITS.vault };
+
+  if ('shares' in amount) {
+    console.log('💳 Building redeem:', amount.shares.toString(), 'shares');
+    return { ...base, functionName: 'redeem', args: [amount.shares, owner, owner] };
+  }
+  console.log('💳 Building withdrawal:', amount.assets.toString(), 'USDC base units');
+  return { ...base, functionName: 'withdraw', args: [amount.assets, owner, owner] };
+};
+
+/**
+ * Dry-run a request from `account` before the wallet opens. Throws the contract
+ * error when it would revert (decoded by parseVaultTxError), otherwise returns
+ * the expected result and gas, and the request with its gas limit taken from
+ * the estimate. With `estimateFee`, also prices the transaction in the native
+ * token for the confirmation step.
+ */
+export async function simulateVaultRequest(
+  chainId: number,
+  account: Address,
+  request: VaultWriteRequest,
+  { estimateFee = false }: { estimateFee?: boolean } = {}
+): Promise<{ request: VaultWriteRequest; simulation: VaultTxSimulation }> {
+  const client = getPublicClient(chainId);
+  const call = { address: request.address, abi: request.abi, functionName: request.functionName, args: request.args, account };
+
+  const { result } = await client.simulateContract(call);
+  const gas = await client.estimateContractGas(call).catch((error: unknown) => {
+    console.warn(`⚠️ Gas estimation failed for ${request.functionName}, using the fixed limit:`, error);
+    return null;
+  });
+
+  const gasLimit = gas ? gas * GAS_HEADROOM_PERCENT / BigInt(100) : request.gas;
+  const fee = estimateFee && gasLimit
+    ? await estimateNetworkFee(chainId, account, {
+        to: request.address,
+        data: encodeFunctionData({ abi: request.abi, functionName: request.functionName, args: request.args }),
+        gas: gas ?? gasLimit,
+        gasLimit,
+      }).catch((error: unknown) => {
+        console.warn(`⚠️ Fee estimation failed for ${request.functionName}:`, error);
+        return null;
+      })
+    : null;
+
+  const simulation: VaultTxSimulation = {
+    functionName: request.functionName,
+    result,
+    gas,
+    fee,
+    simulated: true,
+  };
+  console.log(`🧪 Simulated ${simulation.functionName}:`, { result: String(simulation.result), gas: gas?.toString() });
+
+  return {
+    request: { ...request, gas: gasLimit },
+    simulation,
+  };
+}
+
+/**
+ * Price a request at its fixed gas limit without a dry-run. A deposit reviewed
+ * before its approval would revert on the missing allowance, so it is only
+ * simulated once the approval is confirmed.
+ */
+export async function priceVaultRequest(
+  chainId: number,
+  account: Address,
+  request: VaultWriteRequest
+): Promise<VaultTxSimulation> {
+  const gasLimit = request.gas ?? VAULT_GAS_LIMITS.vault;
+  const fee = await estimateNetworkFee(chainId, account, {
+    to: request.address,
+    data: encodeFunctionData({ abi: request.abi, functionName: request.functionName, args: request.args }),
+    gas: gasLimit,
+    gasLimit,
+  }).catch((error: unknown) => {
+    console.warn(`⚠️ Fee estimation failed for ${request.functionName}:`, error);
+    return null;
+  });
+  console.log(`⛽ Priced ${request.functionName} at the fixed gas limit:`, gasLimit.toString());
+
+  return { functionName: request.functionName, result: undefined, gas: null, fee, simulated: false };
+}
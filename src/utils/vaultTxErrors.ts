@@ -0,0 +1,174 @@
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, type Hex, type ReplacementReason } from 'viem';
+import { CONTRACT_ERROR } from '@/constants/messages';
+import { AAVE_VAULT_ABI, ERC20_ABI } from '@/utils/contracts';
+import { describeOracleFailure, OracleError } from '@/utils/oracleClient';
+
+/**
+ * Classification of vault transaction failures, shared by every deposit /
+ * withdraw UI so wallet rejections, wallet simulation false negatives and
+ * reverts read the same everywhere.
+ */
+
+export type VaultTxErrorKind =
+  | 'rejected'           // User declined in the wallet
+  | 'simulation'         // Wallet's pre-flight simulation failed; the tx may still have gone through (MetaMask on testnets)
+  | 'oracle'             // Deposit signature could not be obtained or verified
+  | 'reverted'           // Mined but reverted
+  | 'replaced'           // Cancelled from the wallet or replaced by another transaction with the same nonce
+  | 'insufficient_funds' // Not enough native token for gas
+  | 'unknown';
+
+export interface VaultTxError {
+  kind: VaultTxErrorKind;
+  message: string;     // Short, user-facing
+  errorName?: string;  // Decoded revert, e.g. 'ERC4626ExceededMaxDeposit' or 'Error' for a revert string
+  cause: unknown;
+}
+
+// Receipt came back with status 'reverted'
+export class TransactionRevertedError extends Error {
+  readonly hash: string;
+
+  constructor(hash: string) {
+    super(`Transaction ${hash} reverted on-chain`);
+    this.name = 'TransactionRevertedError';
+    this.hash = hash;
+  }
+}
+
+// The wallet mined a different transaction with the same nonce. Speed-ups ('repriced') are followed, not raised
+export class TransactionReplacedError extends Error {
+  readonly hash: string;
+  readonly replacementHash: string;
+  readonly reason: Exclude<ReplacementReason, 'repriced'>;
+
+  constructor(hash: string, replacementHash: string, reason: Exclude<ReplacementReason, 'repriced'>) {
+    super(`Transaction ${hash} was ${reason} by ${replacementHash}`);
+    this.name = 'TransactionReplacedError';
+    this.hash = hash;
+    this.replacementHash = replacementHash;
+    this.reason = reason;
+  }
+}
+
+const errorText = (error: unknown) => (error instanceof Error ? error.message : String(error ?? ''));
+
+export const isUserRejection = (error: unknown): boolean => {
+  const msg = errorText(error).toLowerCase();
+  return msg.includes('user rejected') ||
+         msg.includes('rejected') ||
+         msg.includes('denied') ||
+         msg.includes('userrequestrejected') ||
+         msg.includes('cancelled') ||
+         msg.includes('canceled');
+};
+
+// MetaMask reports these for txs that may actually succeed on testnets
+export const isWalletSimulationError = (error: unknown): boolean => {
+  const msg = errorText(error);
+  return msg.includes('Internal JSON-RPC error') || msg.includes('-32603');
+};
+
+// Every error a vault call can revert with, including token errors bubbled up from USDC transfers
+const VAULT_ERRORS_ABI = [...AAVE_VAULT_ABI, ...ERC20_ABI].filter(item => item.type === 'error');
+
+export interface DecodedRevert {
+  errorName: string;        // 'Error' / 'Panic' for require strings and panics
+  args: readonly unknown[];
+}
+
+// Decode the revert data carried by a viem contract error, null when there is none
+export const decodeVaultRevert = (error: unknown): DecodedRevert | null => {
+  if (!(error instanceof BaseError)) return null;
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null;
+
+  // Decode against all vault and token errors, the called contract's ABI alone misses bubbled token errors
+  if (reverted.raw) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: VAULT_ERRORS_ABI, data: reverted.raw as Hex });
+      return { errorName, args: args ?? [] };
+    } catch {
+      // Selector not in the ABI, fall through to what viem decoded
+    }
+  }
+  if (reverted.data) return { errorName: reverted.data.errorName, args: reverted.data.args ?? [] };
+  if (reverted.reason) return { errorName: 'Error', args: [reverted.reason] };
+  return null;
+};
+
+// AaveVault's own errors. Their fragments aren't in AAVE_VAULT_ABI until they are copied from the vault's
+// compiled ABI, so they can't be decoded from revert data; match their names in the error text meanwhile
+const VAULT_ERROR_NAMES = ['SignatureExpired', 'InvalidSignature', 'InvalidAmount'] as const;
+
+const findVaultErrorName = (error: unknown) => {
+  const text = errorText(error);
+  return VAULT_ERROR_NAMES.find(name => text.includes(name));
+};
+
+const describeRevert = ({ errorName, args }: DecodedRevert, action: string): string => {
+  if (errorName in CONTRACT_ERROR) return CONTRACT_ERROR[errorName as keyof typeof CONTRACT_ERROR];
+
+  if (errorName === 'Error') {
+    const reason = String(args[0] ?? '');
+    // Tokens without ERC-6093 errors (e.g. Circle's USDC) revert with strings
+    if (/exceeds allowance/i.test(reason)) return CONTRACT_ERROR.ERC20InsufficientAllowance;
+    if (/exceeds balance/i.test(reason)) return CONTRACT_ERROR.ERC20InsufficientBalance;
+    return reason ? `${action} failed: ${reason.slice(0, 100)}` : `${action} failed: Transaction reverted. Please try again.`;
+  }
+  if (errorName === 'Panic') return `${action} failed: the vault hit an internal error. Please try again.`;
+  return `${action} failed: the vault reverted with ${errorName}.`;
+};
+
+// Clean, user-friendly message for a failed `action` ("Deposit", "Approval"...)
+export const parseVaultTxError = (error: unknown, action: string): VaultTxError => {
+  if (error instanceof OracleError) {
+    return { kind: 'oracle', message: describeOracleFailure(error), cause: error };
+  }
+  if (error instanceof TransactionRevertedError) {
+    return { kind: 'reverted', message: `${action} transaction reverted on-chain. Please try again.`, cause: error };
+  }
+
+  if (error instanceof TransactionReplacedError) {
+    return {
+      kind: 'replaced',
+      message: error.reason === 'cancelled'
+        ? `${action} was cancelled in wallet.`
+        : `${action} was replaced by another transaction from your wallet.`,
+      cause: error,
+    };
+  }
+
+  const vaultErrorName = findVaultErrorName(error);
+  if (vaultErrorName) {
+    return { kind: 'reverted', message: CONTRACT_ERROR[vaultErrorName], errorName: vaultErrorName, cause: error };
+  }
+
+  const revert = decodeVaultRevert(error);
+  if (revert) {
+    return { kind: 'reverted', message: describeRevert(revert, action), errorName: revert.errorName, cause: error };
+  }
+
+  if (isUserRejection(error)) {
+    return { kind: 'rejected', message: `${action} was cancelled in wallet.`, cause: error };
+  }
+  if (isWalletSimulationError(error)) {
+    return {
+      kind: 'simulation',
+      message: 'MetaMask reported an error, but this may be a false negative on testnets. ' +
+        'Please check the block explorer to verify your transaction. Consider using Rabby wallet.',
+      cause: error,
+    };
+  }
+  if (errorText(error).includes('insufficient funds')) {
+    return { kind: 'insufficient_funds', message: 'Insufficient funds for gas fees.', cause: error };
+  }
+
+  // viem's short message leaves out the request details and docs links
+  const msg = error instanceof BaseError ? error.shortMessage : errorText(error);
+  return {
+    kind: 'unknown',
+    message: msg.length > 150 ? msg.slice(0, 150) + '...' : msg || `${action} failed. Please try again.`,
+    cause: error,
+  };
+};